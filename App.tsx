@@ -1,6 +1,12 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { processFieldDataFromImages } from './services/geminiService';
-import type { ProcessedData } from './types';
+import { attachSnippets } from './services/provenance';
+import { renderJobMessage } from './services/messageTemplates';
+import { loadMessageSettings } from './services/settings';
+import { messagesRepository, worksheetRepository } from './services/storage';
+import { startVoiceNoteTranscriber } from './services/voiceNotes';
+import { CURRENT_MESSAGES_VERSION, CURRENT_WORKSHEET_VERSION } from './services/recordMigrations';
+import type { ProcessedData, SavedMessages, TimeSlot, WorksheetData } from './types';
 import { ImageUploader } from './components/ImageUploader';
 import { TimeSlotManager } from './components/TimeSlotManager';
 import { Sidebar } from './components/Sidebar';
@@ -9,56 +15,19 @@ import { WorksheetList } from './components/WorksheetList';
 import { WorksheetView } from './components/WorksheetView';
 import { MessagesList } from './components/MessagesList';
 import { ChatInterface } from './components/ChatInterface';
+import { DataTable } from './components/DataTable';
+import { SettingsView } from './components/SettingsView';
 
-// Helper to parse markdown table into job objects
-const parseMarkdownTable = (markdown: string) => {
-  const lines = markdown.trim().split('\n');
-  const jobs: any[] = [];
-  
-  for (const line of lines) {
-    if (!line.includes('|') || line.includes('---') || (line.toLowerCase().includes('time') && line.toLowerCase().includes('address'))) {
-      continue;
-    }
-    
-    const cols = line.split('|').map(c => c.trim()).filter(c => c !== '');
-    // Note: splitting by | usually leaves empty strings at start/end
-    // The regex /\|/ gives us parts. A valid row: | data | data |
-    // Split results: ["", "data", "data", ""]
-    
-    const cleanCols = line.split('|').slice(1, -1).map(c => c.trim());
-    
-    if (cleanCols.length >= 8) {
-      jobs.push({
-        time: cleanCols[0] || 'TBD',
-        address: cleanCols[1] || '',
-        productCode: cleanCols[2] || '',
-        productType: cleanCols[3] || '',
-        productBrand: cleanCols[4] || '',
-        fault: cleanCols[5] || '',
-        errorCode: cleanCols[6] || '',
-        productionYear: cleanCols[7] || '',
-        serialNumber: cleanCols[8] || '',
-      });
-    }
-  }
-  
-  return jobs;
-};
-
-// Helper to get date label from markdown (first line usually has date)
-const extractDateLabel = (markdown: string): string => {
-  const firstLine = markdown.trim().split('\n')[0];
-  // Look for day/date pattern like "Thursday, Nov 13"
-  const match = firstLine.match(/([A-Za-z]+day,?\s+[A-Za-z]+\s+\d+)/i);
-  if (match) return match[1];
-  return new Date().toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'short' });
-};
+// Fallback label when Gemini could not read the schedule date
+const todayLabel = (): string =>
+  new Date().toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'short' });
 
 export default function App(): React.ReactElement {
   const [activeView, setActiveView] = useState<string>('tomorrow');
   const [stage, setStage] = useState<'input' | 'review' | 'saved'>('input');
   const [imageFiles, setImageFiles] = useState<File[]>([]);
-  const [timeSlots, setTimeSlots] = useState<{ start: string; end: string; }[]>([]);
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [startAddress, setStartAddress] = useState('');
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [processedData, setProcessedData] = useState<ProcessedData | null>(null);
@@ -67,12 +36,25 @@ export default function App(): React.ReactElement {
   
   // For viewing specific worksheets
   const [selectedWorksheetId, setSelectedWorksheetId] = useState<string | null>(null);
+  // The assistant answers about the worksheet last opened
+  const [lastWorksheetId, setLastWorksheetId] = useState<string | null>(null);
+
+  // Object URLs for the uploaded screenshots, used to show the source of low-confidence fields
+  const imageUrls = useMemo(() => imageFiles.map(file => URL.createObjectURL(file)), [imageFiles]);
+  useEffect(() => () => imageUrls.forEach(url => URL.revokeObjectURL(url)), [imageUrls]);
+
+  // Voice notes saved without a transcript are picked up whenever the speech model is loaded
+  useEffect(() => startVoiceNoteTranscriber(), []);
 
   // --- EXTRACT ADDRESSES FOR TIME SLOT MANAGER ---
   const extractedAddresses = useMemo(() => {
-    if (!processedData?.dataTable) return [];
-    const jobs = parseMarkdownTable(processedData.dataTable);
-    return jobs.map(j => j.address);
+    if (!processedData) return [];
+    return processedData.jobs.map(j => j.address);
+  }, [processedData]);
+
+  const extractedProductTypes = useMemo(() => {
+    if (!processedData) return [];
+    return processedData.jobs.map(j => j.productType);
   }, [processedData]);
 
   const handleProcessImages = useCallback(async () => {
@@ -96,7 +78,7 @@ export default function App(): React.ReactElement {
 
       const result = await processFieldDataFromImages(base64Images);
       setProcessedData(result);
-      setJobCount(result.notifications.length);
+      setJobCount(result.jobs.length);
       setStage('review');
     } catch (e) {
       console.error(e);
@@ -107,42 +89,68 @@ export default function App(): React.ReactElement {
   }, [imageFiles]);
 
   // --- SAVE WORKSHEET AND MESSAGES ---
-  const handleSaveWorksheet = () => {
+  const handleSaveWorksheet = async () => {
     if (!processedData) return;
 
-    const dateLabel = extractDateLabel(processedData.dataTable);
+    const dateLabel = processedData.scheduleDate || todayLabel();
     const worksheetId = Date.now().toString();
     const messagesId = worksheetId; // Same ID for correlation
 
-    // Parse jobs from table
-    const jobs = parseMarkdownTable(processedData.dataTable);
+    // Screenshots aren't persisted, so keep a crop of anything the engineer may need to verify later
+    const jobs = await attachSnippets(processedData.jobs, imageUrls);
 
-    // Update notifications with time slots
-    const finalMessages = processedData.notifications.map((msg, index) => {
-      const slot = timeSlots[index];
-      const timeString = slot ? `${slot.start} - ${slot.end}` : '[TIME]';
-      return msg.replace('{{TIME_SLOT}}', timeString);
+    // Slots are laid out in job order during review; once saved they're keyed by job ID
+    const slotsByJob: WorksheetData['timeSlots'] = {};
+    jobs.forEach((job, index) => {
+      if (timeSlots[index]) slotsByJob[job.id] = timeSlots[index];
     });
 
-    // Save worksheet
-    const worksheetPayload = {
-      dateLabel,
-      date: new Date().toISOString(),
-      createdAt: new Date().toISOString(),
-      timeSlots,
-      jobs,
-      comments: {},
-    };
-    localStorage.setItem(`worksheet_${worksheetId}`, JSON.stringify(worksheetPayload));
-
-    // Save messages
-    const messagesPayload = {
-      dateLabel,
-      date: new Date().toISOString(),
-      createdAt: new Date().toISOString(),
-      messages: finalMessages,
-    };
-    localStorage.setItem(`messages_${messagesId}`, JSON.stringify(messagesPayload));
+    // Rendering the messages can fail on a bad template, so it's covered along with the saves
+    try {
+      // The evening-before ETA message for each customer, with their agreed window
+      const messageSettings = loadMessageSettings();
+      const finalMessages = jobs.map((job, index) => {
+        const slot = timeSlots[index];
+        const timeString = slot ? `${slot.start} - ${slot.end}` : '[TIME]';
+        return {
+          jobId: job.id,
+          text: renderJobMessage('evening_eta', job, timeString, messageSettings),
+          phone: job.customerPhone,
+          sentAt: null,
+          sentSnapshot: null,
+        };
+      });
+
+      const now = new Date().toISOString();
+      const worksheetPayload: WorksheetData = {
+        id: worksheetId,
+        schemaVersion: CURRENT_WORKSHEET_VERSION,
+        dateLabel,
+        date: now,
+        createdAt: now,
+        timeSlots: slotsByJob,
+        jobs,
+        comments: {},
+        startAddress: startAddress.trim(),
+      };
+      const messagesPayload: SavedMessages = {
+        id: messagesId,
+        schemaVersion: CURRENT_MESSAGES_VERSION,
+        dateLabel,
+        date: now,
+        createdAt: now,
+        messages: finalMessages,
+      };
+
+      await Promise.all([
+        worksheetRepository.save(worksheetPayload),
+        messagesRepository.save(messagesPayload),
+      ]);
+    } catch (e) {
+      console.error(e);
+      setError("Could not save the worksheet. Please try again.");
+      return;
+    }
 
     setStage('saved');
   };
@@ -151,12 +159,19 @@ export default function App(): React.ReactElement {
     setStage('input');
     setImageFiles([]);
     setTimeSlots([]);
+    setStartAddress('');
     setProcessedData(null);
     setJobCount(0);
   };
 
   const handleImagesSelected = (files: File[]) => setImageFiles(files);
 
+  // Slots move with their jobs; TimeSlotManager then re-plans them for the new order
+  const handleReorderJobs = (order: number[]) => {
+    setTimeSlots(prev => (prev.length === order.length ? order.map(i => prev[i]) : prev));
+    setProcessedData(prev => prev && { ...prev, jobs: order.map(i => prev.jobs[i]) });
+  };
+
   // --- NAVIGATION HANDLER ---
   const handleNavigate = (view: string) => {
     setActiveView(view);
@@ -164,6 +179,7 @@ export default function App(): React.ReactElement {
     // Handle worksheet_ID format
     if (view.startsWith('worksheet_')) {
       setSelectedWorksheetId(view.replace('worksheet_', ''));
+      setLastWorksheetId(view.replace('worksheet_', ''));
     } else {
       setSelectedWorksheetId(null);
     }
@@ -205,11 +221,17 @@ export default function App(): React.ReactElement {
 
           {stage === 'review' && processedData && (
             <div className="space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-700">
+              <DataTable jobs={processedData.jobs} title={processedData.scheduleDate} imageUrls={imageUrls} />
+
               <TimeSlotManager 
                 jobCount={jobCount} 
                 timeSlots={timeSlots} 
                 onTimeSlotsChange={setTimeSlots} 
+                startAddress={startAddress}
+                onStartAddressChange={setStartAddress}
                 addresses={extractedAddresses} 
+                productTypes={extractedProductTypes}
+                onReorder={handleReorderJobs}
               />
 
               <div className="flex justify-end">
@@ -273,71 +295,28 @@ export default function App(): React.ReactElement {
 
     // Messages List
     if (activeView === 'messages_list' || activeView.startsWith('message_')) {
-      return <MessagesList />;
+      return (
+        <MessagesList
+          selectedGroupId={activeView.startsWith('message_') ? activeView.replace('message_', '') : null}
+          onSelectMessages={(id) => handleNavigate(id ? `message_${id}` : 'messages_list')}
+        />
+      );
     }
 
     // Local Assistant
-    if (activeView === 'local_assistant') {
-      return <ChatInterface />;
+    if (activeView === 'local_assistant' || activeView.startsWith('local_assistant_')) {
+      return (
+        <ChatInterface
+          worksheetId={lastWorksheetId}
+          conversationId={activeView.startsWith('local_assistant_') ? activeView.replace('local_assistant_', '') : null}
+          onConversationChange={(id) => handleNavigate(id ? `local_assistant_${id}` : 'local_assistant')}
+        />
+      );
     }
 
     // Settings
     if (activeView === 'settings') {
-      return (
-        <div className="max-w-2xl mx-auto">
-          <header className="space-y-4 mb-8">
-            <h1 className="text-4xl font-black tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-white via-slate-200 to-slate-500">
-              Settings
-            </h1>
-          </header>
-
-          <div className="space-y-6">
-            {/* Agent Settings */}
-            <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
-              <h2 className="text-lg font-semibold text-white mb-4">Parts Search Agent</h2>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm text-slate-400 mb-2">Agent API URL</label>
-                  <input
-                    type="text"
-                    defaultValue={localStorage.getItem('agentApiUrl') || 'http://localhost:8000'}
-                    onChange={(e) => localStorage.setItem('agentApiUrl', e.target.value)}
-                    className="w-full px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500/50"
-                    placeholder="http://your-pc:8000"
-                  />
-                  <p className="text-xs text-slate-500 mt-2">
-                    The URL of your home PC running the GiasTech browser agent.
-                    Use Tailscale or Cloudflare Tunnel to access remotely.
-                  </p>
-                </div>
-              </div>
-            </div>
-
-            {/* Data Management */}
-            <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
-              <h2 className="text-lg font-semibold text-white mb-4">Data Management</h2>
-              <button
-                onClick={() => {
-                  if (confirm('Clear all saved worksheets and messages? This cannot be undone.')) {
-                    const keys = [];
-                    for (let i = 0; i < localStorage.length; i++) {
-                      const key = localStorage.key(i);
-                      if (key && (key.startsWith('worksheet_') || key.startsWith('messages_'))) {
-                        keys.push(key);
-                      }
-                    }
-                    keys.forEach(k => localStorage.removeItem(k));
-                    alert('Data cleared');
-                  }
-                }}
-                className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-400 rounded-xl text-sm transition-colors"
-              >
-                Clear All Data
-              </button>
-            </div>
-          </div>
-        </div>
-      );
+      return <SettingsView />;
     }
 
     return <div className="text-center py-40 text-slate-500">View: {activeView}</div>;
@@ -1,34 +1,158 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useLocalLLM } from '../hooks/useLocalLLM';
-import { BrainIcon, MicIcon, ChevronRightIcon } from './Icons';
+import { useRepositoryList } from '../hooks/useRepositoryList';
+import { conversationRepository, worksheetRepository } from '../services/storage';
+import { buildAssistantContext, contextBudget } from '../services/assistantContext';
+import { conversationFileName, conversationToMarkdown, createConversation } from '../services/conversations';
+import { downloadFile } from '../services/download';
+import { loadAssistantSettings } from '../services/settings';
+import { assessModelFit, checkGpuCapability, formatMegabytes, getContextTokens, getLlmModel, type GpuCapability } from '../services/llmModels';
+import { BrainIcon, MicIcon, ChevronRightIcon, StopIcon, TrashIcon } from './Icons';
+import type { AssistantConversation, ChatMessage } from '../types';
+
+interface ChatInterfaceProps {
+  worksheetId?: string | null; // Worksheet to start from, e.g. the one last opened
+  conversationId: string | null; // Saved conversation to resume, or null for a new one
+  onConversationChange: (id: string | null) => void;
+}
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ worksheetId = null, conversationId, onConversationChange }) => {
+  const { items: worksheets } = useRepositoryList(worksheetRepository);
+  // null until picked, then '' for no worksheet; otherwise the one passed in, or the newest
+  const [pickedWorksheetId, setPickedWorksheetId] = useState<string | null>(null);
+  const [scopeJobId, setScopeJobId] = useState<string | null>(null);
+  // Read on mount, so changes made in Settings apply when the view is next opened
+  const [{ systemPrompt: instructions, model: modelId }] = useState(loadAssistantSettings);
+  const model = getLlmModel(modelId);
+  const [gpu, setGpu] = useState<GpuCapability | null>(null);
+  const fit = gpu && assessModelFit(model, gpu);
+
+  const preferredId = pickedWorksheetId ?? worksheetId;
+  const worksheet = preferredId === '' ? null : worksheets.find(w => w.id === preferredId) ?? worksheets[0] ?? null;
+  const activeWorksheetId = worksheet?.id ?? '';
+  const scopeJobIndex = worksheet && scopeJobId ? worksheet.jobs.findIndex(job => job.id === scopeJobId) : -1;
+  const scopedJobId = scopeJobIndex >= 0 ? scopeJobId : null;
 
-export const ChatInterface: React.FC = () => {
   const { 
     initEngine, 
     progress, 
     loadPercentage, 
     isLoading, 
     isReady, 
+    loadError,
+    loadedModelId,
     messages, 
     isGenerating, 
+    stats,
     sendMessage,
-    resetChat 
-  } = useLocalLLM();
+    stopGenerating,
+    replaceMessages,
+  } = useLocalLLM(buildAssistantContext({ worksheet, jobId: scopedJobId }, instructions, contextBudget(getContextTokens(model.id))));
 
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  // Auto-scroll to bottom
+  const [conversation, setConversation] = useState<AssistantConversation | null>(null);
+  const savedMessages = useRef<ChatMessage[]>(messages); // What the saved copy holds, to skip redundant saves
+
+  // Switch to the conversation being navigated to
+  useEffect(() => {
+    if (conversationId === (conversation?.id ?? null)) return; // Already shown, e.g. just created
+    if (!conversationId) {
+      setConversation(null);
+      savedMessages.current = [];
+      replaceMessages([]);
+      return;
+    }
+
+    let cancelled = false;
+    conversationRepository.get(conversationId)
+      .then(found => {
+        if (cancelled) return;
+        if (!found) {
+          onConversationChange(null);
+          return;
+        }
+        setConversation(found);
+        savedMessages.current = found.messages;
+        replaceMessages(found.messages);
+        setPickedWorksheetId(found.worksheetId ?? '');
+        setScopeJobId(found.jobId);
+      })
+      .catch(e => console.error('Failed to load conversation:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  // Save after each reply; the first one creates the conversation
+  useEffect(() => {
+    if (isGenerating || messages.length === 0 || messages === savedMessages.current) return;
+    savedMessages.current = messages;
+    const next = conversation
+      ? { ...conversation, messages, worksheetId: worksheet?.id ?? null, jobId: scopedJobId, updatedAt: new Date().toISOString() }
+      : createConversation(messages, worksheet?.id ?? null, scopedJobId);
+    setConversation(next);
+    conversationRepository.save(next).catch(e => console.error('Failed to save conversation:', e));
+    if (!conversation) onConversationChange(next.id);
+  }, [messages, isGenerating]);
+
+  const saveConversation = (changes: Partial<AssistantConversation>) => {
+    if (!conversation) return;
+    const next = { ...conversation, ...changes };
+    setConversation(next);
+    conversationRepository.save(next).catch(e => console.error('Failed to save conversation:', e));
+  };
+
+  useEffect(() => {
+    let mounted = true;
+    checkGpuCapability().then(result => {
+      if (mounted) setGpu(result);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  // Auto-scroll to bottom; jumps rather than animating while tokens stream in
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    messagesEndRef.current?.scrollIntoView({ behavior: isGenerating ? "auto" : "smooth" });
   }, [messages, isGenerating]);
 
   const handleSend = () => {
-    if (!input.trim()) return;
+    if (!input.trim() || isGenerating) return;
     sendMessage(input);
     setInput('');
   };
 
+  const handleWorksheetChange = (id: string) => {
+    setPickedWorksheetId(id);
+    setScopeJobId(null);
+    saveConversation({ worksheetId: id || null, jobId: null });
+  };
+
+  const handleScopeChange = (jobId: string | null) => {
+    setScopeJobId(jobId);
+    saveConversation({ jobId });
+  };
+
+  const handleRename = () => {
+    if (!conversation) return;
+    const title = prompt('Conversation title', conversation.title)?.trim();
+    if (title) saveConversation({ title });
+  };
+
+  const handleExport = () => {
+    if (!conversation) return;
+    downloadFile(conversationFileName(conversation), conversationToMarkdown(conversation, worksheet), 'text/markdown');
+  };
+
+  const handleDelete = () => {
+    if (!conversation || !confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    conversationRepository.delete(conversation.id).catch(e => console.error('Failed to delete conversation:', e));
+    onConversationChange(null);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -45,15 +169,23 @@ export const ChatInterface: React.FC = () => {
         <div>
           <h2 className="text-3xl font-black text-white mb-2">Local AI Assistant</h2>
           <p className="text-slate-400 max-w-md mx-auto">
-            Initialize the Llama-3-8B model locally in your browser. 
-            This downloads ~4GB of data and caches it for offline use.
+            Run {model.label} locally in your browser. This downloads ~{formatMegabytes(model.downloadMb)} once and
+            caches it for offline use. Choose a different model in Settings.
           </p>
         </div>
+        {fit?.warning && (
+          <p className={`text-sm max-w-md ${fit.canRun ? 'text-amber-400' : 'text-red-400'}`}>{fit.warning}</p>
+        )}
+        {conversation && (
+          <p className="text-sm text-slate-300 max-w-md">Load the model to continue "{conversation.title}".</p>
+        )}
+        {loadError && <p className="text-sm text-red-400 max-w-md">Failed to load model: {loadError}</p>}
         <button 
-          onClick={initEngine}
-          className="px-8 py-4 bg-white text-slate-900 rounded-xl font-bold hover:scale-105 transition-transform shadow-lg hover:shadow-white/20"
+          onClick={() => initEngine(model.id)}
+          disabled={!fit?.canRun}
+          className="px-8 py-4 bg-white text-slate-900 rounded-xl font-bold hover:scale-105 transition-transform shadow-lg hover:shadow-white/20 disabled:opacity-50 disabled:hover:scale-100"
         >
-          Initialize Inference Engine
+          {gpu ? 'Initialize Inference Engine' : 'Checking WebGPU…'}
         </button>
       </div>
     );
@@ -87,36 +219,93 @@ export const ChatInterface: React.FC = () => {
   return (
     <div className="max-w-4xl mx-auto h-[calc(100vh-8rem)] flex flex-col bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl overflow-hidden">
       {/* Header */}
-      <div className="p-4 border-b border-white/10 flex justify-between items-center bg-white/5">
+      <div className="p-4 border-b border-white/10 flex flex-wrap justify-between items-center gap-3 bg-white/5">
         <div className="flex items-center gap-3">
           <div className="w-8 h-8 bg-violet-600/20 text-violet-400 rounded-lg flex items-center justify-center border border-violet-500/30">
             <BrainIcon />
           </div>
           <div>
-            <h3 className="font-bold text-white">Llama-3-8B-Instruct</h3>
+            {conversation ? (
+              <button onClick={handleRename} className="font-bold text-white hover:text-violet-300 text-left" title="Rename">
+                {conversation.title}
+              </button>
+            ) : (
+              <h3 className="font-bold text-white">New conversation</h3>
+            )}
             <p className="text-[10px] text-emerald-400 flex items-center gap-1">
               <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse"/>
-              Running Locally (WebGPU)
+              {getLlmModel(loadedModelId ?? modelId).label} • Running Locally (WebGPU)
             </p>
           </div>
         </div>
-        <button 
-          onClick={resetChat}
-          className="text-xs text-slate-400 hover:text-white px-3 py-1.5 hover:bg-white/10 rounded-lg transition-colors"
-        >
-          Clear Chat
-        </button>
+        <div className="flex items-center gap-2">
+          <select
+            value={activeWorksheetId}
+            onChange={(e) => handleWorksheetChange(e.target.value)}
+            className="bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-violet-500/50"
+            title="Worksheet the assistant answers from"
+          >
+            <option value="">No worksheet</option>
+            {worksheets.map(w => (
+              <option key={w.id} value={w.id}>{w.dateLabel}</option>
+            ))}
+          </select>
+          {worksheet && (
+            <select
+              value={scopedJobId ?? ''}
+              onChange={(e) => handleScopeChange(e.target.value || null)}
+              className="bg-slate-900/50 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-violet-500/50"
+              title="Limit the assistant to one job"
+            >
+              <option value="">All jobs</option>
+              {worksheet.jobs.map((job, i) => (
+                <option key={job.id} value={job.id}>Job {i + 1}{job.customerName ? ` • ${job.customerName}` : ''}</option>
+              ))}
+            </select>
+          )}
+          {conversation && (
+            <>
+              <button 
+                onClick={handleExport}
+                className="text-xs text-slate-400 hover:text-white px-3 py-1.5 hover:bg-white/10 rounded-lg transition-colors"
+                title="Export as markdown"
+              >
+                Export
+              </button>
+              <button 
+                onClick={handleDelete}
+                className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+                title="Delete conversation"
+              >
+                <TrashIcon />
+              </button>
+            </>
+          )}
+          <button 
+            onClick={() => onConversationChange(null)}
+            disabled={!conversation}
+            className="text-xs text-slate-400 hover:text-white px-3 py-1.5 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
+          >
+            New Chat
+          </button>
+        </div>
       </div>
 
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-6 scroll-smooth">
         {messages.length === 0 && (
           <div className="h-full flex items-center justify-center opacity-50">
-            <p className="text-slate-500">Ask me anything about industrial maintenance...</p>
+            <p className="text-slate-500">
+              {!worksheet
+                ? 'Ask me anything about appliance repair...'
+                : scopedJobId
+                  ? `Ask about Job ${scopeJobIndex + 1}: the fault, error code, serial or your notes...`
+                  : `Ask about the ${worksheet.dateLabel} jobs, e.g. "what's the fault on job 3?"`}
+            </p>
           </div>
         )}
         
-        {messages.map((msg, idx) => (
+        {messages.filter(msg => msg.content).map((msg, idx) => (
           <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div 
               className={`max-w-[85%] p-4 rounded-2xl ${
@@ -129,7 +318,8 @@ export const ChatInterface: React.FC = () => {
             </div>
           </div>
         ))}
-        {isGenerating && (
+        {/* Until the first token arrives */}
+        {isGenerating && !messages[messages.length - 1]?.content && (
           <div className="flex justify-start">
             <div className="bg-slate-800 border border-slate-700 p-4 rounded-2xl rounded-tl-sm flex gap-2 items-center">
               <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
@@ -151,15 +341,30 @@ export const ChatInterface: React.FC = () => {
             placeholder="Type your message..."
             className="w-full bg-slate-900/50 border border-slate-700 rounded-xl px-4 py-3 pr-12 text-white placeholder-slate-500 focus:outline-none focus:border-violet-500/50 focus:ring-1 focus:ring-violet-500/50 resize-none h-14 max-h-32 transition-all"
           />
-          <button
-            onClick={handleSend}
-            disabled={isGenerating || !input.trim()}
-            className="absolute right-2 top-2 p-2 bg-violet-600 hover:bg-violet-500 text-white rounded-lg disabled:opacity-50 disabled:hover:bg-violet-600 transition-all shadow-lg"
-          >
-            <ChevronRightIcon />
-          </button>
+          {isGenerating ? (
+            <button
+              onClick={stopGenerating}
+              className="absolute right-2 top-2 p-2 bg-red-500/80 hover:bg-red-500 text-white rounded-lg transition-all shadow-lg"
+              title="Stop generating"
+            >
+              <StopIcon />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              className="absolute right-2 top-2 p-2 bg-violet-600 hover:bg-violet-500 text-white rounded-lg disabled:opacity-50 disabled:hover:bg-violet-600 transition-all shadow-lg"
+            >
+              <ChevronRightIcon />
+            </button>
+          )}
         </div>
         <p className="text-[10px] text-slate-600 mt-2 text-center">
+          {stats && !isGenerating && (
+            <span className="text-slate-500 font-mono">
+              {stats.stopped ? 'Stopped • ' : ''}{stats.tokens} tokens • {stats.tokensPerSecond.toFixed(1)} tok/s •{' '}
+            </span>
+          )}
           AI runs completely on-device. No data leaves your browser.
         </p>
       </div>
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { renderJobMessage } from '../services/messageTemplates';
+import { loadMessageSettings, type MessageTemplateId } from '../services/settings';
+import { getSmsUrl, getWhatsAppUrl, normalisePhone } from '../services/phoneLinks';
+import type { JobData } from '../types';
+
+interface CustomerMessagesProps {
+  job: JobData;
+  timeSlot: string; // Arrival window as shown to the customer, e.g. "10:00 - 12:00"
+}
+
+/** Template picker for messaging a customer during the day, rendered from the job's details. */
+export const CustomerMessages: React.FC<CustomerMessagesProps> = ({ job, timeSlot }) => {
+  const [settings] = useState(loadMessageSettings);
+  const [templateId, setTemplateId] = useState<MessageTemplateId | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const text = useMemo(
+    () => (templateId ? renderJobMessage(templateId, job, timeSlot, settings) : ''),
+    [templateId, job, timeSlot, settings],
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error('Failed to copy message', e);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-500 uppercase tracking-wider">Message Customer</p>
+      <div className="flex flex-wrap gap-2">
+        {settings.templates.map(template => (
+          <button
+            key={template.id}
+            onClick={() => setTemplateId(templateId === template.id ? null : template.id)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+              templateId === template.id
+                ? 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30'
+                : 'border-white/10 text-slate-400 hover:text-slate-200 hover:bg-white/5'
+            }`}
+          >
+            {template.label}
+          </button>
+        ))}
+      </div>
+
+      {templateId && (
+        <div className="p-3 bg-white/5 border border-white/10 rounded-xl space-y-2 animate-in fade-in">
+          <p className="text-sm text-slate-200 whitespace-pre-wrap">{text}</p>
+          <div className="flex justify-end gap-2">
+            {normalisePhone(job.customerPhone) && (
+              <>
+                <a
+                  href={getSmsUrl(job.customerPhone, text)}
+                  className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-xs text-slate-200"
+                >
+                  SMS
+                </a>
+                <a
+                  href={getWhatsAppUrl(job.customerPhone, text)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="px-3 py-1.5 bg-emerald-600/20 hover:bg-emerald-600/30 border border-emerald-500/30 rounded-lg text-xs text-emerald-300"
+                >
+                  WhatsApp
+                </a>
+              </>
+            )}
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-xs font-medium"
+            >
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
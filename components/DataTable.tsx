@@ -1,61 +1,35 @@
-import React, { useMemo, useState } from 'react';
-import { CopyIcon, CheckIcon } from './Icons';
+import React, { useState } from 'react';
+import { CopyIcon, CheckIcon, DocumentIcon } from './Icons';
+import { SourcePreview } from './SourcePreview';
+import { JOB_COLUMNS, jobsToMarkdown, jobsToTsv } from '../services/tableExport';
+import { isLowConfidence } from '../services/provenance';
+import type { JobData, JobTextField } from '../types';
 
 interface DataTableProps {
-  markdownTable: string;
+  jobs: JobData[];
+  title?: string;
+  imageUrls?: string[]; // Uploaded screenshots, used to show where a low-confidence value came from
 }
 
-export const DataTable: React.FC<DataTableProps> = ({ markdownTable }) => {
-  const [isCopied, setIsCopied] = useState(false);
+export const DataTable: React.FC<DataTableProps> = ({ jobs, title, imageUrls = [] }) => {
+  const [copiedFormat, setCopiedFormat] = useState<'tsv' | 'markdown' | null>(null);
+  const [selectedCell, setSelectedCell] = useState<{ row: number; field: JobTextField } | null>(null);
 
-  const { title, headers, rows } = useMemo(() => {
-    if (!markdownTable) return { title: '', headers: [], rows: [] };
-
-    const lines = markdownTable.trim().split('\n');
-    const tableTitle = lines.length > 0 ? lines[0].trim() : '';
-    const tableLines = lines.slice(1).filter(line => line.includes('|'));
-
-    if (tableLines.length < 2) return { title: tableTitle, headers: [], rows: [] };
-
-    const headerLine = tableLines[0];
-    // Use slice(1, -1) to handle the leading and trailing pipes in a markdown table row.
-    const tableHeaders = headerLine.split('|').slice(1, -1).map(h => h.trim());
-
-    // Assume the line after the header is the separator, and actual data rows start from the third line of the table block.
-    const tableRows = tableLines.slice(2).map(rowLine => 
-      rowLine.split('|').slice(1, -1).map(cell => cell.trim())
-    );
-
-    return { title: tableTitle, headers: tableHeaders, rows: tableRows };
-  }, [markdownTable]);
-
-  const handleCopyToSheets = async () => {
-    if (!markdownTable) return;
+  const handleCopy = async (format: 'tsv' | 'markdown') => {
+    if (jobs.length === 0) return;
 
     try {
-      const lines = markdownTable.trim().split('\n');
-      const tableLines = lines.filter(line => line.includes('|'));
-
-      // We need headers + data rows. We skip the separator line.
-      const cleanRows = tableLines.filter(line => !line.includes('---'));
-
-      const tsvString = cleanRows.map(line => {
-        // Split by pipe
-        const cells = line.split('|');
-        // Remove first and last empty strings caused by leading/trailing pipes
-        return cells.slice(1, -1).map(c => c.trim()).join('\t');
-      }).join('\n');
+      const text = format === 'tsv' ? jobsToTsv(jobs) : jobsToMarkdown(jobs, title);
+      await navigator.clipboard.writeText(text);
 
-      await navigator.clipboard.writeText(tsvString);
-      
-      setIsCopied(true);
-      setTimeout(() => setIsCopied(false), 2000);
+      setCopiedFormat(format);
+      setTimeout(() => setCopiedFormat(null), 2000);
     } catch (err) {
-      console.error("Failed to copy to sheets:", err);
+      console.error(`Failed to copy ${format}:`, err);
     }
   };
 
-  if (headers.length === 0 || rows.length === 0) {
+  if (jobs.length === 0) {
     return (
       <div className="text-slate-400 p-4 border border-slate-800 rounded-lg border-dashed">
         <p>No data available to display.</p>
@@ -74,39 +48,80 @@ export const DataTable: React.FC<DataTableProps> = ({ markdownTable }) => {
             <table className="w-full text-sm text-left text-slate-300">
                 <thead className="text-xs text-cyan-300 uppercase bg-slate-800/80 backdrop-blur-sm">
                     <tr>
-                        {headers.map((header, index) => (
-                            <th key={index} scope="col" className="px-6 py-4 font-bold tracking-wider border-b border-slate-700">
-                                {header}
+                        {JOB_COLUMNS.map(column => (
+                            <th key={column.key} scope="col" className="px-6 py-4 font-bold tracking-wider border-b border-slate-700">
+                                {column.label}
                             </th>
                         ))}
                     </tr>
                 </thead>
                 <tbody className="bg-slate-900/30">
-                    {rows.map((row, rowIndex) => (
+                    {jobs.map((job, rowIndex) => (
                         <tr key={rowIndex} className="border-b border-slate-800/50 hover:bg-cyan-900/10 transition-colors group">
-                            {row.map((cell, cellIndex) => (
-                                <td key={cellIndex} className="px-6 py-4 group-hover:text-cyan-100 transition-colors whitespace-nowrap">
-                                    {cell}
-                                </td>
-                            ))}
+                            {JOB_COLUMNS.map(column => {
+                                const isDoubtful = isLowConfidence(job.provenance?.[column.key]);
+                                const isSelected = selectedCell?.row === rowIndex && selectedCell.field === column.key;
+                                return (
+                                    <td
+                                        key={column.key}
+                                        onClick={isDoubtful ? () => setSelectedCell(isSelected ? null : { row: rowIndex, field: column.key }) : undefined}
+                                        title={isDoubtful ? 'Low confidence - click to see the source screenshot' : undefined}
+                                        className={`px-6 py-4 transition-colors whitespace-nowrap ${
+                                            isDoubtful
+                                                ? `cursor-pointer text-amber-200 bg-amber-500/10 hover:bg-amber-500/20 ${isSelected ? 'ring-1 ring-inset ring-amber-400' : ''}`
+                                                : 'group-hover:text-cyan-100'
+                                        }`}
+                                    >
+                                        {job[column.key]}
+                                    </td>
+                                );
+                            })}
                         </tr>
                     ))}
                 </tbody>
             </table>
         </div>
 
-        <div className="flex justify-end">
+        {selectedCell && jobs[selectedCell.row]?.provenance?.[selectedCell.field] && (() => {
+            const job = jobs[selectedCell.row];
+            const provenance = job.provenance![selectedCell.field]!;
+            const label = JOB_COLUMNS.find(c => c.key === selectedCell.field)?.label || selectedCell.field;
+            return (
+                <SourcePreview
+                    label={`Job ${selectedCell.row + 1} • ${label}`}
+                    value={job[selectedCell.field]}
+                    provenance={provenance}
+                    imageUrl={imageUrls[provenance.sourceImage]}
+                    onClose={() => setSelectedCell(null)}
+                />
+            );
+        })()}
+
+        <div className="flex justify-end gap-3">
+            <button
+                onClick={() => handleCopy('markdown')}
+                className={`
+                    group flex items-center gap-2 px-5 py-2.5 rounded-lg text-sm font-semibold transition-all duration-300 border
+                    ${copiedFormat === 'markdown'
+                        ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400 shadow-[0_0_15px_rgba(16,185,129,0.2)]'
+                        : 'bg-slate-800 hover:bg-slate-700 border-slate-700 hover:border-cyan-500/50 text-slate-400 hover:text-cyan-400 shadow-lg'
+                    }
+                `}
+            >
+                {copiedFormat === 'markdown' ? <CheckIcon /> : <DocumentIcon />}
+                <span>{copiedFormat === 'markdown' ? 'Copied Markdown!' : 'Copy as Markdown'}</span>
+            </button>
             <button
-                onClick={handleCopyToSheets}
+                onClick={() => handleCopy('tsv')}
                 className={`
                     group flex items-center gap-2 px-5 py-2.5 rounded-lg text-sm font-semibold transition-all duration-300 border
-                    ${isCopied 
+                    ${copiedFormat === 'tsv'
                         ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400 shadow-[0_0_15px_rgba(16,185,129,0.2)]' 
                         : 'bg-slate-800 hover:bg-slate-700 border-slate-700 hover:border-cyan-500/50 text-slate-400 hover:text-cyan-400 shadow-lg'
                     }
                 `}
             >
-                {isCopied ? (
+                {copiedFormat === 'tsv' ? (
                     <>
                         <CheckIcon />
                         <span>Copied for Sheets!</span>
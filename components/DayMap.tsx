@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { geocode, getRouteGeometry, RoutingUnavailableError, type LatLon, type RouteGeometry } from '../services/routingService';
+import { fitBounds, MAX_ZOOM, MIN_ZOOM, project, TILE_SIZE, tileUrl, unproject } from '../services/mapProjection';
+import { DEFAULT_MAP_SETTINGS, loadMapSettings } from '../services/settings';
+
+export interface MapStop {
+  id: string;
+  label: string; // Shown on the pin, usually the job number
+  address: string;
+}
+
+interface DayMapProps {
+  stops: MapStop[]; // In visiting order
+  startAddress?: string;
+  onSelectStop?: (id: string) => void;
+}
+
+interface LocatedStop extends MapStop {
+  point: LatLon;
+}
+
+const MAP_HEIGHT = 320;
+
+export const DayMap: React.FC<DayMapProps> = ({ stops, startAddress, onSelectStop }) => {
+  const [mapSettings] = useState(loadMapSettings);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; center: LatLon } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [start, setStart] = useState<LatLon | null>(null);
+  const [located, setLocated] = useState<LocatedStop[]>([]);
+  const [missing, setMissing] = useState<MapStop[]>([]);
+  const [needsNetwork, setNeedsNetwork] = useState(false); // Some addresses couldn't be looked up offline
+  const [isLocating, setIsLocating] = useState(false);
+  const [geometry, setGeometry] = useState<RouteGeometry | null>(null);
+  const [view, setView] = useState<{ center: LatLon; zoom: number } | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    setWidth(element.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Geocoding is cached and throttled, so re-running this for the same addresses is cheap
+  const stopsKey = JSON.stringify([startAddress, stops.map(s => [s.id, s.address])]);
+  useEffect(() => {
+    let cancelled = false;
+    const locate = async () => {
+      setIsLocating(true);
+      let offline = false;
+      const locateAddress = (address: string) => geocode(address).catch(e => {
+        if (!(e instanceof RoutingUnavailableError)) throw e;
+        offline = true;
+        return null;
+      });
+      const startPoint = startAddress ? await locateAddress(startAddress) : null;
+      const found: LocatedStop[] = [];
+      const notFound: MapStop[] = [];
+      for (const stop of stops) {
+        const point = await locateAddress(stop.address);
+        if (cancelled) return;
+        if (point) found.push({ ...stop, point });
+        else notFound.push(stop);
+      }
+      if (cancelled) return;
+      setStart(startPoint);
+      setLocated(found);
+      setMissing(notFound);
+      setNeedsNetwork(offline);
+      setView(null);
+      setGeometry(null);
+      setIsLocating(false);
+
+      const path = [...(startPoint ? [startPoint] : []), ...found.map(s => s.point)];
+      const route = await getRouteGeometry(path);
+      if (!cancelled) setGeometry(route);
+    };
+    // Wait for typing in the start address to settle before looking anything up
+    const timer = setTimeout(() => {
+      locate().catch(e => {
+        console.error('Map lookup failed', e);
+        if (!cancelled) setIsLocating(false);
+      });
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [stopsKey]); // stops and startAddress are captured in stopsKey
+
+  const allPoints = useMemo(
+    () => [...(start ? [start] : []), ...located.map(s => s.point)],
+    [start, located],
+  );
+  const fitted = useMemo(
+    () => (allPoints.length > 0 && width > 0 ? fitBounds(allPoints, width, MAP_HEIGHT) : null),
+    [allPoints, width],
+  );
+  const current = view || fitted;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!current || (e.target as HTMLElement).closest('button')) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, center: current.center };
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !current) return;
+    const origin = project(drag.center, current.zoom);
+    const center = unproject({ x: origin.x - (e.clientX - drag.x), y: origin.y - (e.clientY - drag.y) }, current.zoom);
+    setView({ center, zoom: current.zoom });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomBy = (delta: number) => {
+    if (!current) return;
+    setView({ center: current.center, zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, current.zoom + delta)) });
+  };
+
+  const renderMap = () => {
+    if (!current || width === 0) return null;
+    const { zoom } = current;
+    const centerPx = project(current.center, zoom);
+    const left = centerPx.x - width / 2;
+    const top = centerPx.y - MAP_HEIGHT / 2;
+    const toScreen = (point: LatLon) => {
+      const p = project(point, zoom);
+      return { x: p.x - left, y: p.y - top };
+    };
+
+    const tiles: React.ReactNode[] = [];
+    const maxTile = 2 ** zoom - 1;
+    for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+      for (let ty = Math.max(0, Math.floor(top / TILE_SIZE)); ty <= Math.min(maxTile, Math.floor((top + MAP_HEIGHT) / TILE_SIZE)); ty++) {
+        tiles.push(
+          <img
+            key={`${zoom}/${tx}/${ty}`}
+            src={tileUrl(mapSettings.tileUrl || DEFAULT_MAP_SETTINGS.tileUrl, tx, ty, zoom)}
+            alt=""
+            draggable={false}
+            className="absolute select-none max-w-none"
+            style={{ left: tx * TILE_SIZE - left, top: ty * TILE_SIZE - top, width: TILE_SIZE, height: TILE_SIZE }}
+          />,
+        );
+      }
+    }
+
+    const line = geometry?.points.map(toScreen).map(p => `${p.x},${p.y}`).join(' ');
+    const startPosition = start && toScreen(start);
+
+    return (
+      <>
+        <div className="absolute inset-0 opacity-80">{tiles}</div>
+        {line && (
+          <svg className="absolute inset-0 pointer-events-none" width={width} height={MAP_HEIGHT}>
+            <polyline
+              points={line}
+              fill="none"
+              stroke="#22d3ee"
+              strokeWidth={4}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+              strokeDasharray={geometry?.approximate ? '8 8' : undefined}
+            />
+          </svg>
+        )}
+        {startPosition && (
+          <div
+            className="absolute -translate-x-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-slate-900 border-2 border-white text-white text-xs font-bold flex items-center justify-center shadow-lg"
+            style={{ left: startPosition.x, top: startPosition.y }}
+            title={startAddress}
+          >
+            S
+          </div>
+        )}
+        {located.map(stop => {
+          const { x, y } = toScreen(stop.point);
+          return (
+            <button
+              key={stop.id}
+              onClick={() => onSelectStop?.(stop.id)}
+              className="absolute -translate-x-1/2 -translate-y-full w-8 h-8 rounded-full rounded-bl-none -rotate-45 bg-gradient-to-br from-cyan-500 to-blue-600 border-2 border-white shadow-lg hover:scale-110 transition-transform"
+              style={{ left: x, top: y }}
+              title={stop.address}
+            >
+              <span className="block rotate-45 text-white text-xs font-bold">{stop.label}</span>
+            </button>
+          );
+        })}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="relative w-full overflow-hidden rounded-2xl border border-white/10 bg-slate-900 touch-none cursor-grab active:cursor-grabbing"
+        style={{ height: MAP_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {renderMap()}
+
+        {!current && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-500">
+            {isLocating ? 'Locating jobs...'
+              : needsNetwork ? 'Needs a network connection to locate these addresses'
+              : 'No job addresses could be located'}
+          </div>
+        )}
+
+        {current && (
+          <div className="absolute top-3 right-3 flex flex-col gap-1">
+            <button onClick={() => zoomBy(1)} className="w-8 h-8 rounded-lg bg-black/70 text-white hover:bg-black/90" aria-label="Zoom in">+</button>
+            <button onClick={() => zoomBy(-1)} className="w-8 h-8 rounded-lg bg-black/70 text-white hover:bg-black/90" aria-label="Zoom out">−</button>
+            <button onClick={() => setView(null)} className="w-8 h-8 rounded-lg bg-black/70 text-white text-[10px] hover:bg-black/90" aria-label="Fit all stops">Fit</button>
+          </div>
+        )}
+
+        <div className="absolute bottom-0 right-0 px-2 py-0.5 bg-black/60 text-[10px] text-slate-400">
+          {mapSettings.attribution}
+        </div>
+      </div>
+
+      {(isLocating || missing.length > 0 || geometry?.approximate) && (
+        <p className="text-xs text-slate-500">
+          {isLocating && 'Locating jobs... '}
+          {missing.length > 0 && `Not on the map: ${missing.map(s => `Job ${s.label}`).join(', ')}. `}
+          {needsNetwork && 'Some addresses need a network connection to locate. '}
+          {geometry?.approximate && 'Dashed route is a straight-line estimate.'}
+        </p>
+      )}
+    </div>
+  );
+};
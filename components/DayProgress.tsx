@@ -0,0 +1,61 @@
+import React from 'react';
+import { ClockIcon } from './Icons';
+import { formatMinutes } from '../services/clock';
+import type { DayProgress as DayProgressData } from '../services/jobStatus';
+
+interface DayProgressProps {
+  progress: DayProgressData;
+}
+
+export const DayProgress: React.FC<DayProgressProps> = ({ progress }) => {
+  const { total, finished, completed, onSiteMinutes, plannedMinutes, scheduleDeltaMinutes } = progress;
+  const percent = total > 0 ? Math.round((finished / total) * 100) : 0;
+
+  let scheduleLabel = 'Day complete';
+  let scheduleStyle = 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30';
+  if (finished < total) {
+    if (scheduleDeltaMinutes === null) {
+      scheduleLabel = 'No slot planned';
+      scheduleStyle = 'bg-slate-500/20 text-slate-300 border-slate-500/30';
+    } else if (scheduleDeltaMinutes > 0) {
+      scheduleLabel = `${formatMinutes(scheduleDeltaMinutes)} behind`;
+      scheduleStyle = 'bg-red-500/20 text-red-400 border-red-500/30';
+    } else if (scheduleDeltaMinutes < 0) {
+      scheduleLabel = `${formatMinutes(scheduleDeltaMinutes)} ahead`;
+      scheduleStyle = 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30';
+    } else {
+      scheduleLabel = 'On schedule';
+    }
+  }
+
+  return (
+    <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-5 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-xs text-slate-500 uppercase tracking-wider">Progress</p>
+          <p className="text-2xl font-bold text-white">
+            {finished}/{total} <span className="text-sm font-normal text-slate-400">jobs done • {completed} completed</span>
+          </p>
+        </div>
+        <span className={`px-3 py-1.5 border rounded-full text-sm whitespace-nowrap ${scheduleStyle}`}>
+          {scheduleLabel}
+        </span>
+      </div>
+
+      <div className="w-full h-2 bg-slate-800 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-cyan-500 to-emerald-500 transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        <ClockIcon />
+        <span>
+          {formatMinutes(onSiteMinutes)} on site
+          {plannedMinutes > 0 && ` vs ${formatMinutes(plannedMinutes)} planned for attended jobs`}
+        </span>
+      </div>
+    </div>
+  );
+};
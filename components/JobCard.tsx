@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   MicIcon, 
   MicOffIcon, 
@@ -10,41 +10,89 @@ import {
   CloseIcon 
 } from './Icons';
 import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
-import type { JobData } from '../types';
+import { applySerialDecoding } from '../services/serialDecoder';
+import { confirmEditedFields, isLowConfidence } from '../services/provenance';
+import { JOB_STATUSES, getStatusLabel } from '../services/jobStatus';
+import { SourcePreview } from './SourcePreview';
+import { CustomerMessages } from './CustomerMessages';
+import { VoiceNotes } from './VoiceNotes';
+import { saveVoiceNote } from '../services/voiceNotes';
+import type { JobData, JobStatus, JobTextField } from '../types';
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  pending: 'bg-slate-500/20 text-slate-300 border-slate-500/30',
+  travelling: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  on_site: 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30',
+  completed: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
+  no_access: 'bg-orange-500/20 text-orange-300 border-orange-500/30',
+  parts_required: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+  cancelled: 'bg-red-500/20 text-red-300 border-red-500/30',
+};
+
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Folds a comment saved from outside the card into the one being typed. Appended notes,
+ * as voice commands add, are carried over; any other outside change only applies when
+ * there's no unsaved typing to lose.
+ */
+const mergeSavedComment = (current: string, previous: string, saved: string): string => {
+  if (current === previous) return saved;
+  const base = previous.trimEnd();
+  if (!saved.startsWith(base)) return current;
+  const added = saved.slice(base.length).trimStart();
+  if (!added) return current;
+  return current.trim() ? `${current.trimEnd()}\n${added}` : added;
+};
 
 interface JobCardProps extends JobData {
-  index: number;
-  onCommentChange: (index: number, comment: string) => void;
-  onUpdateJob?: (index: number, updatedJob: JobData) => void; // Callback for saving edits
+  index: number; // Position in the day, for display only
+  arrivalWindow?: string; // Planned slot, shown in place of the booked time
+  onCommentChange: (jobId: string, comment: string) => void;
+  onUpdateJob?: (jobId: string, updatedJob: JobData) => void; // Callback for saving edits
+  onStatusChange?: (jobId: string, status: JobStatus) => void;
   savedComment?: string;
   agentApiUrl: string;
 }
 
 export const JobCard: React.FC<JobCardProps> = ({
   index,
-  time,
-  address,
-  productCode,
-  productType,
-  productBrand,
-  fault,
-  errorCode,
-  productionYear,
-  serialNumber,
+  arrivalWindow,
   onCommentChange,
   onUpdateJob,
+  onStatusChange,
   savedComment = '',
   agentApiUrl,
+  ...job
 }) => {
+  const {
+    id,
+    time,
+    customerName,
+    customerPhone,
+    address,
+    productCode,
+    productType,
+    productBrand,
+    fault,
+    errorCode,
+    productionYear,
+    serialNumber,
+    serialFlag,
+    provenance,
+    status,
+    statusHistory,
+  } = job;
   const [isExpanded, setIsExpanded] = useState(true);
   const [comment, setComment] = useState(savedComment);
   
   // Editing State
   const [isEditing, setIsEditing] = useState(false);
-  const [editValues, setEditValues] = useState<JobData>({
-    time, address, productCode, productType, productBrand, 
-    fault, errorCode, productionYear, serialNumber
-  });
+  const [editValues, setEditValues] = useState<JobData>(job);
+
+  // Field whose source screenshot is being shown
+  const [sourceField, setSourceField] = useState<{ field: JobTextField; label: string } | null>(null);
 
   // Parts search state
   const [showPartsSearch, setShowPartsSearch] = useState(false);
@@ -54,23 +102,41 @@ export const JobCard: React.FC<JobCardProps> = ({
   const [currentJobId, setCurrentJobId] = useState<number | null>(null);
 
   // Speech Recognition Hook
-  const { isListening, toggleListening, isSupported } = useSpeechRecognition({
-    onResult: (text) => setComment((prev) => prev + text),
+  const { isListening, toggleListening, isSupported, isModelLoading, modelProgress, partialTranscript, error: speechError } = useSpeechRecognition({
+    onResult: (text) => setComment((prev) => (prev && !/\s$/.test(prev) ? `${prev} ${text}` : prev + text)),
+    // The recording is kept too, so nothing is lost if live transcription couldn't keep up
+    onRecording: (recording) => {
+      saveVoiceNote(id, recording).catch(e => console.error('Failed to save voice note:', e));
+    },
     continuous: true,
     interimResults: true
   });
 
+  // The worksheet's copy of the comment, and what this card last saved to it
+  const lastSaved = useRef(savedComment);
+  const lastSent = useRef(savedComment);
+
+  // Notes can also be added from outside the card, e.g. by voice command
+  useEffect(() => {
+    const previous = lastSaved.current;
+    lastSaved.current = savedComment;
+    if (savedComment === lastSent.current) return; // The card's own save coming back
+    setComment(current => mergeSavedComment(current, previous, savedComment));
+  }, [savedComment]);
+
   // Debounce save comment
   useEffect(() => {
     const timer = setTimeout(() => {
-      onCommentChange(index, comment);
+      lastSent.current = comment;
+      onCommentChange(id, comment);
     }, 500);
     return () => clearTimeout(timer);
-  }, [comment, index, onCommentChange]);
+  }, [comment, id, onCommentChange]);
 
   // --- Handlers for Edit Mode ---
   const handleEditClick = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent accordion toggle
+    setEditValues(job);
     setIsEditing(true);
     setIsExpanded(true); // Force expand to see fields
   };
@@ -78,7 +144,8 @@ export const JobCard: React.FC<JobCardProps> = ({
   const handleSaveEdit = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onUpdateJob) {
-      onUpdateJob(index, editValues);
+      // Serial or brand may have been corrected, so the year is re-derived rather than trusted
+      onUpdateJob(id, applySerialDecoding(confirmEditedFields(job, editValues)));
     }
     setIsEditing(false);
   };
@@ -86,14 +153,11 @@ export const JobCard: React.FC<JobCardProps> = ({
   const handleCancelEdit = (e: React.MouseEvent) => {
     e.stopPropagation();
     // Revert values
-    setEditValues({
-      time, address, productCode, productType, productBrand, 
-      fault, errorCode, productionYear, serialNumber
-    });
+    setEditValues(job);
     setIsEditing(false);
   };
 
-  const handleInputChange = (field: keyof JobData, value: string) => {
+  const handleInputChange = (field: JobTextField, value: string) => {
     setEditValues(prev => ({...prev, [field]: value }));
   };
 
@@ -144,9 +208,12 @@ export const JobCard: React.FC<JobCardProps> = ({
   };
 
   // Helper for rendering fields
-  const RenderField = ({ label, field, value }: { label: string, field: keyof JobData, value: string }) => (
+  const RenderField = ({ label, field, value }: { label: string, field: JobTextField, value: string }) => {
+    const fieldProvenance = provenance?.[field];
+    const isDoubtful = isLowConfidence(fieldProvenance);
+    return (
     <div>
-      <p className="text-xs text-slate-500 uppercase tracking-wider mb-1">{label}</p>
+      <p className={`text-xs uppercase tracking-wider mb-1 ${isDoubtful ? 'text-amber-400' : 'text-slate-500'}`}>{label}</p>
       {isEditing ? (
         <input 
           type="text" 
@@ -154,11 +221,20 @@ export const JobCard: React.FC<JobCardProps> = ({
           onChange={(e) => handleInputChange(field, e.target.value)}
           className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:ring-1 focus:ring-cyan-500 outline-none"
         />
+      ) : isDoubtful ? (
+        <button
+          onClick={() => setSourceField(sourceField?.field === field ? null : { field, label })}
+          className="w-full text-left text-sm text-amber-200 font-mono truncate px-1 -mx-1 rounded bg-amber-500/10 border border-amber-500/30 hover:bg-amber-500/20"
+          title="Low confidence - tap to see the source screenshot"
+        >
+          {value || 'N/A'}
+        </button>
       ) : (
         <p className="text-sm text-white font-mono truncate" title={value}>{value || 'N/A'}</p>
       )}
     </div>
-  );
+    );
+  };
 
   return (
     <div className={`bg-black/30 backdrop-blur-xl border rounded-2xl overflow-hidden transition-all duration-300 ${isEditing ? 'border-cyan-500/50 ring-1 ring-cyan-500/30' : 'border-white/10'}`}>
@@ -186,12 +262,17 @@ export const JobCard: React.FC<JobCardProps> = ({
             )}
             
             <p className="text-sm text-slate-400 truncate">
-              {time} • {isEditing ? editValues.productType : productType}
+              {arrivalWindow ?? time} • {customerName && !isEditing ? `${customerName} • ` : ''}{isEditing ? editValues.productType : productType}
             </p>
           </div>
         </div>
 
         <div className="flex items-center gap-3 flex-shrink-0">
+          {!isEditing && (
+            <span className={`px-2 py-1 border rounded-lg text-xs font-medium whitespace-nowrap ${STATUS_STYLES[status]}`}>
+              {getStatusLabel(status)}
+            </span>
+          )}
           {errorCode && !isEditing && (
             <span className="px-2 py-1 bg-red-500/20 text-red-400 rounded-lg text-xs font-medium hidden sm:inline-block">
               {errorCode}
@@ -225,17 +306,67 @@ export const JobCard: React.FC<JobCardProps> = ({
       {/* Expanded Content */}
       {isExpanded && (
         <div className="px-4 pb-4 space-y-4 animate-in fade-in slide-in-from-top-2 duration-300">
+          {/* Status Controls */}
+          {onStatusChange && !isEditing && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {JOB_STATUSES.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => onStatusChange(id, option.value)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                      status === option.value
+                        ? STATUS_STYLES[option.value]
+                        : 'border-white/10 text-slate-500 hover:text-slate-200 hover:bg-white/5'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {statusHistory.length > 0 && (
+                <p className="text-[11px] text-slate-500">
+                  {statusHistory.map(change => `${getStatusLabel(change.status)} ${formatClock(change.at)}`).join(' → ')}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Job Details Grid */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4 bg-white/5 rounded-xl">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 p-4 bg-white/5 rounded-xl">
+            <RenderField label="Customer" field="customerName" value={customerName} />
+            <RenderField label="Phone" field="customerPhone" value={customerPhone} />
             <RenderField label="Product Code" field="productCode" value={productCode} />
             <RenderField label="Brand" field="productBrand" value={productBrand} />
             <RenderField label="Year" field="productionYear" value={productionYear} />
             <RenderField label="Serial" field="serialNumber" value={serialNumber} />
           </div>
+          {serialFlag && !isEditing && (
+            <p className="text-xs text-amber-400 -mt-2 px-1">Year not decoded: {serialFlag}</p>
+          )}
+
+          {sourceField && provenance?.[sourceField.field] && !isEditing && (
+            <SourcePreview
+              label={sourceField.label}
+              value={job[sourceField.field]}
+              provenance={provenance[sourceField.field]!}
+              onClose={() => setSourceField(null)}
+            />
+          )}
 
           {/* Fault Description */}
           <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl">
-            <p className="text-xs text-amber-400 uppercase tracking-wider mb-1">Fault Description</p>
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-xs text-amber-400 uppercase tracking-wider">Fault Description</p>
+              {isLowConfidence(provenance?.fault) && !isEditing && (
+                <button
+                  onClick={() => setSourceField(sourceField?.field === 'fault' ? null : { field: 'fault', label: 'Fault Description' })}
+                  className="text-[10px] uppercase tracking-wider text-amber-300 px-2 py-0.5 rounded bg-amber-500/20 hover:bg-amber-500/30"
+                >
+                  Low confidence • View source
+                </button>
+              )}
+            </div>
             {isEditing ? (
               <textarea 
                 value={editValues.fault}
@@ -248,6 +379,8 @@ export const JobCard: React.FC<JobCardProps> = ({
             )}
           </div>
 
+          {!isEditing && <CustomerMessages job={job} timeSlot={arrivalWindow ?? time} />}
+
           {/* Comments Section with Robust Speech-to-Text */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -272,13 +405,24 @@ export const JobCard: React.FC<JobCardProps> = ({
               placeholder="Add notes about this job..."
               className="w-full h-24 px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500/50 focus:ring-2 focus:ring-cyan-500/20 transition-all resize-none"
             />
-            {isListening && (
+            {isListening && isModelLoading && (
+              <p className="text-xs text-slate-400">
+                Downloading speech model… {modelProgress}% (you're being recorded, so keep talking)
+              </p>
+            )}
+            {speechError && <p className="text-xs text-red-400">{speechError}</p>}
+            {partialTranscript && (
+              <p className="text-sm text-slate-400 italic">{partialTranscript}…</p>
+            )}
+            {isListening && !partialTranscript && (
               <p className="text-xs text-red-400 animate-pulse">
-                🎤 Listening... (Speak clearly, pauses will auto-resume)
+                🎤 Listening... (each pause adds what you said to the notes)
               </p>
             )}
           </div>
 
+          <VoiceNotes jobId={id} />
+
           {/* Parts Search (Unchanged logic, just wrapped) */}
           <div className="border-t border-white/10 pt-4">
             <button
@@ -1,58 +1,69 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import { ChatIcon, ChevronRightIcon, TrashIcon, CopyIcon, CheckIcon } from './Icons';
+import { useRepositoryList } from '../hooks/useRepositoryList';
+import { messagesRepository, worksheetRepository } from '../services/storage';
+import { getSmsUrl, getWhatsAppUrl, normalisePhone } from '../services/phoneLinks';
+import { deriveMessages, withMessageSent, type LiveMessage } from '../services/liveMessages';
+import { loadMessageSettings } from '../services/settings';
 import type { SavedMessages } from '../types';
 
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
 interface MessagesListProps {
-  onSelectMessages?: (id: string) => void;
+  selectedGroupId: string | null;
+  onSelectMessages: (id: string | null) => void;
 }
 
-export const MessagesList: React.FC<MessagesListProps> = ({ onSelectMessages }) => {
-  const [messageGroups, setMessageGroups] = useState<SavedMessages[]>([]);
-  const [selectedGroup, setSelectedGroup] = useState<SavedMessages | null>(null);
+export const MessagesList: React.FC<MessagesListProps> = ({ selectedGroupId, onSelectMessages }) => {
+  const { items: messageGroups } = useRepositoryList(messagesRepository);
+  const { items: worksheets, isLoading: worksheetsLoading } = useRepositoryList(worksheetRepository);
+  const [settings] = useState(loadMessageSettings);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
 
-  useEffect(() => {
-    loadMessages();
-  }, []);
-
-  const loadMessages = () => {
-    const groups: SavedMessages[] = [];
-    
-    // Scan localStorage for messages
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('messages_')) {
-        try {
-          const data = JSON.parse(localStorage.getItem(key) || '');
-          groups.push({
-            id: key.replace('messages_', ''),
-            date: data.date,
-            dateLabel: data.dateLabel || data.date,
-            messages: data.messages || [],
-            createdAt: data.createdAt || data.date,
-          });
-        } catch (e) {
-          console.error('Failed to parse messages:', key);
-        }
-      }
-    }
+  const selectedGroup = messageGroups.find(group => group.id === selectedGroupId) || null;
+  // Message groups are saved under the same ID as their worksheet
+  const selectedWorksheet = worksheets.find(worksheet => worksheet.id === selectedGroupId) || null;
+  const messages = useMemo(
+    () => (selectedGroup ? deriveMessages(selectedGroup, selectedWorksheet, settings) : []),
+    [selectedGroup, selectedWorksheet, settings],
+  );
+  const sentCount = messages.filter(m => m.sentAt).length;
+  const staleCount = messages.filter(m => m.isStale).length;
 
-    // Sort by date descending
-    groups.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    setMessageGroups(groups);
-  };
+  // Totals for the list, counted from the same derived messages the detail view shows
+  const groupCounts = useMemo(() => {
+    const worksheetsById = new Map(worksheets.map(worksheet => [worksheet.id, worksheet]));
+    return new Map(messageGroups.map(group => {
+      const derived = deriveMessages(group, worksheetsById.get(group.id) ?? null, settings);
+      return [group.id, { total: derived.length, sent: derived.filter(m => m.sentAt).length }];
+    }));
+  }, [messageGroups, worksheets, settings]);
 
-  const deleteMessages = (id: string, e: React.MouseEvent) => {
+  const deleteMessages = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (confirm('Delete these messages?')) {
-      localStorage.removeItem(`messages_${id}`);
-      loadMessages();
-      if (selectedGroup?.id === id) {
-        setSelectedGroup(null);
+      if (selectedGroupId === id) {
+        onSelectMessages(null);
+      }
+      try {
+        await messagesRepository.delete(id);
+      } catch (err) {
+        console.error('Failed to delete messages:', err);
       }
     }
   };
 
+  // Applied to the stored group rather than the rendered one, so quick taps on
+  // different messages don't overwrite each other
+  const setMessageSent = async (group: SavedMessages, message: LiveMessage, sent: boolean) => {
+    try {
+      await messagesRepository.update(group.id, current => withMessageSent(current, message, sent));
+    } catch (err) {
+      console.error('Failed to update message status:', err);
+    }
+  };
+
   const copyMessage = async (message: string, index: number) => {
     try {
       await navigator.clipboard.writeText(message);
@@ -66,7 +77,7 @@ export const MessagesList: React.FC<MessagesListProps> = ({ onSelectMessages })
   const copyAllMessages = async () => {
     if (!selectedGroup) return;
     try {
-      await navigator.clipboard.writeText(selectedGroup.messages.join('\n\n---\n\n'));
+      await navigator.clipboard.writeText(messages.map(m => m.text).join('\n\n---\n\n'));
       setCopiedIndex(-1);
       setTimeout(() => setCopiedIndex(null), 2000);
     } catch (err) {
@@ -93,7 +104,7 @@ export const MessagesList: React.FC<MessagesListProps> = ({ onSelectMessages })
       <div className="max-w-2xl mx-auto">
         <header className="space-y-4 mb-8">
           <button
-            onClick={() => setSelectedGroup(null)}
+            onClick={() => onSelectMessages(null)}
             className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
           >
             <ChevronRightIcon />
@@ -106,7 +117,13 @@ export const MessagesList: React.FC<MessagesListProps> = ({ onSelectMessages })
                 {selectedGroup.dateLabel}
               </h1>
               <p className="text-slate-400 font-light mt-1">
-                {selectedGroup.messages.length} message{selectedGroup.messages.length !== 1 ? 's' : ''}
+                {messages.length} message{messages.length !== 1 ? 's' : ''}
+                {sentCount < messages.length && (
+                  <span className="text-amber-400"> • {messages.length - sentCount} not sent</span>
+                )}
+                {staleCount > 0 && (
+                  <span className="text-orange-400"> • {staleCount} changed since sent</span>
+                )}
               </p>
             </div>
             
@@ -120,35 +137,91 @@ export const MessagesList: React.FC<MessagesListProps> = ({ onSelectMessages })
           </div>
         </header>
 
+        {!selectedWorksheet && !worksheetsLoading && (
+          <p className="mb-4 text-xs text-slate-500">
+            The worksheet for these messages has been deleted, so they show the text as saved.
+          </p>
+        )}
+
         <div className="space-y-4">
-          {selectedGroup.messages.map((message, index) => (
-            <div
-              key={index}
-              className="relative group bg-black/30 backdrop-blur-xl border border-white/10 rounded-xl p-4"
-            >
-              <div className="flex items-start justify-between gap-4">
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 mb-2">
-                    <span className="w-6 h-6 rounded-full bg-gradient-to-br from-cyan-500 to-blue-600 flex items-center justify-center text-xs text-white font-bold">
-                      {index + 1}
-                    </span>
-                    <span className="text-xs text-slate-500">Customer {index + 1}</span>
+          {messages.map((message, index) => {
+            const hasPhone = normalisePhone(message.phone) !== '';
+            // Opening a deep link is as close as we can get to knowing it was sent
+            const markSent = () => {
+              if (!message.sentAt || message.isStale) setMessageSent(selectedGroup, message, true);
+            };
+            return (
+              <div
+                key={message.jobId}
+                className={`relative group bg-black/30 backdrop-blur-xl border rounded-xl p-4 ${
+                  message.isStale ? 'border-orange-500/40' : message.sentAt ? 'border-white/10' : 'border-amber-500/30'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="w-6 h-6 rounded-full bg-gradient-to-br from-cyan-500 to-blue-600 flex items-center justify-center text-xs text-white font-bold">
+                        {index + 1}
+                      </span>
+                      <span className="text-xs text-slate-500">{message.phone || `Customer ${index + 1}, no phone number`}</span>
+                      <button
+                        onClick={() => setMessageSent(selectedGroup, message, !message.sentAt)}
+                        className={`ml-auto px-2 py-0.5 rounded-lg text-xs border transition-colors ${
+                          message.sentAt
+                            ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30'
+                            : 'bg-amber-500/10 text-amber-400 border-amber-500/30 hover:bg-amber-500/20'
+                        }`}
+                        title={message.sentAt ? 'Mark as not sent' : 'Mark as sent'}
+                      >
+                        {message.sentAt ? `Sent ${formatClock(message.sentAt)}` : 'Not sent'}
+                      </button>
+                    </div>
+                    <p className="text-slate-200 text-sm whitespace-pre-wrap leading-relaxed">
+                      {message.text}
+                    </p>
+                    {message.isStale && (
+                      <details className="mt-3 text-xs">
+                        <summary className="cursor-pointer text-orange-400">
+                          Changed since sent. The job or its time slot has been edited.
+                        </summary>
+                        <p className="mt-2 p-2 rounded-lg bg-white/5 text-slate-400 whitespace-pre-wrap">
+                          {message.sentText}
+                        </p>
+                      </details>
+                    )}
+                    {hasPhone && (
+                      <div className="flex gap-2 mt-3">
+                        <a
+                          href={getSmsUrl(message.phone, message.text)}
+                          onClick={markSent}
+                          className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-xs text-slate-200 transition-colors"
+                        >
+                          SMS
+                        </a>
+                        <a
+                          href={getWhatsAppUrl(message.phone, message.text)}
+                          target="_blank"
+                          rel="noreferrer"
+                          onClick={markSent}
+                          className="px-3 py-1.5 bg-emerald-600/20 hover:bg-emerald-600/30 border border-emerald-500/30 rounded-lg text-xs text-emerald-300 transition-colors"
+                        >
+                          WhatsApp
+                        </a>
+                      </div>
+                    )}
                   </div>
-                  <p className="text-slate-200 text-sm whitespace-pre-wrap leading-relaxed">
-                    {message}
-                  </p>
-                </div>
                 
-                <button
-                  onClick={() => copyMessage(message, index)}
-                  className="p-2 rounded-lg text-slate-500 hover:text-cyan-400 hover:bg-cyan-500/10 transition-all"
-                  title="Copy message"
-                >
-                  {copiedIndex === index ? <CheckIcon /> : <CopyIcon />}
-                </button>
+                  <button
+                    onClick={() => copyMessage(message.text, index)}
+                    className="p-2 rounded-lg text-slate-500 hover:text-cyan-400 hover:bg-cyan-500/10 transition-all"
+                    title="Copy message"
+                  >
+                    {copiedIndex === index ? <CheckIcon /> : <CopyIcon />}
+                  </button>
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     );
@@ -190,38 +263,44 @@ export const MessagesList: React.FC<MessagesListProps> = ({ onSelectMessages })
       </header>
 
       <div className="space-y-3">
-        {messageGroups.map((group) => (
-          <div
-            key={group.id}
-            onClick={() => setSelectedGroup(group)}
-            className="group relative bg-black/30 backdrop-blur-xl border border-white/10 rounded-xl p-4 hover:bg-white/5 hover:border-cyan-500/30 transition-all cursor-pointer"
-          >
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-4">
-                <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-emerald-500/20 to-teal-600/20 border border-emerald-500/30 flex items-center justify-center">
-                  <ChatIcon />
-                </div>
-                <div>
-                  <h3 className="font-semibold text-white">{group.dateLabel}</h3>
-                  <p className="text-sm text-slate-400">
-                    {group.messages.length} message{group.messages.length !== 1 ? 's' : ''} • {formatDate(group.createdAt)}
-                  </p>
+        {messageGroups.map((group) => {
+          const { total, sent } = groupCounts.get(group.id) ?? { total: 0, sent: 0 };
+          return (
+            <div
+              key={group.id}
+              onClick={() => onSelectMessages(group.id)}
+              className="group relative bg-black/30 backdrop-blur-xl border border-white/10 rounded-xl p-4 hover:bg-white/5 hover:border-cyan-500/30 transition-all cursor-pointer"
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-emerald-500/20 to-teal-600/20 border border-emerald-500/30 flex items-center justify-center">
+                    <ChatIcon />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-white">{group.dateLabel}</h3>
+                    <p className="text-sm text-slate-400">
+                      {total} message{total !== 1 ? 's' : ''} • {formatDate(group.createdAt)}
+                    </p>
+                    <p className={`text-xs mt-0.5 ${sent === total ? 'text-emerald-400' : 'text-amber-400'}`}>
+                      {sent}/{total} sent
+                    </p>
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={(e) => deleteMessages(group.id, e)}
-                  className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-all"
-                  title="Delete messages"
-                >
-                  <TrashIcon />
-                </button>
-                <ChevronRightIcon />
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={(e) => deleteMessages(group.id, e)}
+                    className="p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 opacity-0 group-hover:opacity-100 transition-all"
+                    title="Delete messages"
+                  >
+                    <TrashIcon />
+                  </button>
+                  <ChevronRightIcon />
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import {
+  geocode,
+  getGoogleMapsDayUrls,
+  getWazeUrl,
+  GOOGLE_MAPS_MAX_WAYPOINTS,
+  RoutingUnavailableError,
+} from '../services/routingService';
+import { buildGpx, type GpxStop } from '../services/gpx';
+import { downloadFile } from '../services/download';
+import type { MapStop } from './DayMap';
+
+interface NavigationExportProps {
+  stops: MapStop[]; // In visiting order
+  startAddress?: string;
+  routeName: string; // Used for the GPX route and file name
+}
+
+export const NavigationExport: React.FC<NavigationExportProps> = ({ stops, startAddress, routeName }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [gpxNote, setGpxNote] = useState<string | null>(null);
+
+  const googleUrls = getGoogleMapsDayUrls(stops.map(s => s.address), startAddress);
+  const stopsPerLink = GOOGLE_MAPS_MAX_WAYPOINTS + 1;
+
+  // Waze takes one stop per link. The tab is opened straight away so popup blockers
+  // treat it as part of the tap, then pointed at cached coordinates when we have them.
+  const handleOpenWaze = async (stop: MapStop) => {
+    const tab = window.open('about:blank', '_blank');
+    if (tab) tab.opener = null;
+    const point = await geocode(stop.address).catch(() => null);
+    const url = getWazeUrl(stop.address, point);
+    if (tab) tab.location.href = url;
+    else window.location.href = url;
+  };
+
+  const handleDownloadGpx = async () => {
+    setIsExporting(true);
+    setGpxNote(null);
+    try {
+      const gpxStops: GpxStop[] = [];
+      const skipped: string[] = [];
+      let offline = false;
+      for (const stop of stops) {
+        const point = await geocode(stop.address).catch(e => {
+          if (!(e instanceof RoutingUnavailableError)) throw e;
+          offline = true;
+          return null;
+        });
+        if (point) gpxStops.push({ name: `Job ${stop.label}`, description: stop.address, point });
+        else skipped.push(stop.label);
+      }
+      if (gpxStops.length === 0) {
+        setGpxNote(offline
+          ? 'Locating the job addresses needs a network connection.'
+          : 'None of the job addresses could be located.');
+        return;
+      }
+      // The route sets off from the start address, as on the map, when that can be located
+      const start = startAddress ? await geocode(startAddress).catch(() => null) : null;
+      if (start) gpxStops.unshift({ name: 'Start', description: startAddress, point: start });
+      const fileName = `${routeName.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'route'}.gpx`;
+      downloadFile(fileName, buildGpx(routeName, gpxStops), 'application/gpx+xml');
+      if (skipped.length > 0) {
+        setGpxNote(`Left out jobs ${skipped.join(', ')}: ${offline ? 'locating them needs a network connection' : 'address not found'}.`);
+      }
+    } catch (e) {
+      console.error(e);
+      setGpxNote('Could not build the GPX file.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (stops.length === 0) return null;
+
+  return (
+    <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {googleUrls.map((url, index) => (
+          <a
+            key={url}
+            href={url}
+            target="_blank"
+            rel="noreferrer"
+            className="px-4 py-2 bg-cyan-600/20 hover:bg-cyan-600/30 border border-cyan-500/30 text-cyan-300 rounded-xl text-sm font-medium transition-colors"
+          >
+            {googleUrls.length > 1
+              ? `Google Maps, part ${index + 1} of ${googleUrls.length}`
+              : 'Open day in Google Maps'}
+          </a>
+        ))}
+        <button
+          onClick={handleDownloadGpx}
+          disabled={isExporting}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200 rounded-xl text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {isExporting ? 'Locating stops...' : 'Download GPX'}
+        </button>
+      </div>
+
+      {googleUrls.length > 1 && (
+        <p className="text-xs text-slate-500">
+          Google Maps links hold up to {stopsPerLink} stops each; open the next part when you reach the end of one.
+        </p>
+      )}
+      {gpxNote && <p className="text-xs text-amber-400">{gpxNote}</p>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs uppercase tracking-wider text-slate-500">Waze</span>
+        {stops.map(stop => (
+          <button
+            key={stop.id}
+            onClick={() => handleOpenWaze(stop)}
+            className="w-8 h-8 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 text-sm text-slate-200 transition-colors"
+            title={stop.address}
+          >
+            {stop.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { ClockIcon, CopyIcon, CheckIcon } from './Icons';
+import { formatClockTime, formatMinutes } from '../services/clock';
+import { planRevisedEtas, needsRevisedEta, splitRemainingJobs, type RevisedEta } from '../services/runningLate';
+import { renderJobMessage } from '../services/messageTemplates';
+import { loadMessageSettings, loadScheduleSettings } from '../services/settings';
+import { getSmsUrl, getWhatsAppUrl, normalisePhone } from '../services/phoneLinks';
+import type { TimeSlot, WorksheetData } from '../types';
+
+interface RunningLatePanelProps {
+  worksheet: WorksheetData;
+  onApply: (timeSlots: { [jobId: string]: TimeSlot }) => void;
+}
+
+const clockNow = () => {
+  const now = new Date();
+  return formatClockTime(now.getHours() * 60 + now.getMinutes());
+};
+
+const formatSlot = (slot: TimeSlot | null) => (slot ? `${slot.start} - ${slot.end}` : 'No window');
+
+/** Re-estimates the rest of the day after an overrun and drafts revised ETAs for the customers affected. */
+export const RunningLatePanel: React.FC<RunningLatePanelProps> = ({ worksheet, onApply }) => {
+  const [scheduleSettings] = useState(loadScheduleSettings);
+  const [messageSettings] = useState(loadMessageSettings);
+  const [isOpen, setIsOpen] = useState(false);
+  const [readyAt, setReadyAt] = useState(clockNow);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<RevisedEta[] | null>(null);
+  const [copiedJobId, setCopiedJobId] = useState<string | null>(null);
+
+  const { current, remaining } = splitRemainingJobs(worksheet.jobs);
+  const currentNumber = current ? worksheet.jobs.indexOf(current) + 1 : null;
+  // A finished job's last status change is when the engineer actually left it
+  const lastChange = current?.statusHistory[current.statusHistory.length - 1];
+  const finishedAt = current && current.status !== 'on_site' && lastChange ? new Date(lastChange.at) : null;
+
+  const handleOpen = () => {
+    setReadyAt(finishedAt ? formatClockTime(finishedAt.getHours() * 60 + finishedAt.getMinutes()) : clockNow());
+    setRevisions(null);
+    setError(null);
+    setIsOpen(true);
+  };
+
+  const handlePlan = async () => {
+    setIsPlanning(true);
+    setError(null);
+    try {
+      setRevisions(await planRevisedEtas(worksheet, readyAt, scheduleSettings));
+    } catch (e) {
+      console.error('Failed to re-estimate the day', e);
+      setError(e instanceof Error ? e.message : 'Could not re-estimate the day');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!revisions) return;
+    const updated = { ...worksheet.timeSlots };
+    revisions.forEach(revision => {
+      updated[revision.job.id] = revision.newSlot;
+    });
+    onApply(updated);
+    setIsOpen(false);
+  };
+
+  const handleCopy = async (jobId: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedJobId(jobId);
+      setTimeout(() => setCopiedJobId(null), 2000);
+    } catch (e) {
+      console.error('Failed to copy message', e);
+    }
+  };
+
+  if (remaining.length === 0) return null;
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={handleOpen}
+        className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 text-amber-300 rounded-xl text-sm font-medium transition-colors"
+      >
+        <ClockIcon />
+        Running late?
+      </button>
+    );
+  }
+
+  const notified = revisions?.filter(revision => needsRevisedEta(revision, scheduleSettings)) ?? [];
+
+  return (
+    <div className="bg-black/30 backdrop-blur-xl border border-amber-500/30 rounded-2xl p-5 space-y-4 animate-in fade-in">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold text-white">Running late</h3>
+        <button onClick={() => setIsOpen(false)} className="text-sm text-slate-400 hover:text-white">
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm text-slate-400 mb-2">
+            {current?.status === 'on_site'
+              ? `Job ${currentNumber} will be finished at`
+              : current
+                ? `Free to leave job ${currentNumber} at`
+                : 'Free to start at'}
+          </label>
+          <input
+            type="time"
+            value={readyAt}
+            onChange={(e) => setReadyAt(e.target.value)}
+            className="bg-black/30 border border-white/10 rounded-xl px-4 py-2 text-white focus:outline-none focus:border-cyan-500/50"
+          />
+        </div>
+        <button
+          onClick={() => setReadyAt(clockNow())}
+          className="px-3 py-2 text-sm text-slate-400 hover:text-white hover:bg-white/5 rounded-lg"
+        >
+          Now
+        </button>
+        <button
+          onClick={handlePlan}
+          disabled={isPlanning || !readyAt}
+          className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+        >
+          {isPlanning ? 'Estimating...' : 'Re-estimate ETAs'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {revisions && (
+        <div className="space-y-3">
+          <div className="divide-y divide-white/5 text-sm">
+            {revisions.map(revision => {
+              const moved = revision.shiftMinutes !== 0;
+              return (
+                <div key={revision.job.id} className="flex flex-wrap items-center gap-3 py-2">
+                  <span className="w-16 text-slate-400">Job {worksheet.jobs.indexOf(revision.job) + 1}</span>
+                  <span className={`font-mono ${moved ? 'text-slate-500 line-through' : 'text-slate-300'}`}>
+                    {formatSlot(revision.oldSlot)}
+                  </span>
+                  {moved && (
+                    <>
+                      <span className="text-slate-600">→</span>
+                      <span className="font-mono text-white">{formatSlot(revision.newSlot)}</span>
+                      <span className="px-2 py-0.5 bg-amber-500/20 text-amber-400 rounded-lg text-xs">
+                        +{formatMinutes(revision.shiftMinutes)}
+                      </span>
+                    </>
+                  )}
+                  {!needsRevisedEta(revision, scheduleSettings) && (
+                    <span className="text-xs text-slate-500">No message needed</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {notified.length > 0 ? (
+            <div className="space-y-3">
+              <p className="text-xs text-slate-500 uppercase tracking-wider">
+                Revised ETA messages (windows moved more than {formatMinutes(scheduleSettings.lateThresholdMinutes)})
+              </p>
+              {notified.map(revision => {
+                const text = renderJobMessage(
+                  'running_late',
+                  revision.job,
+                  formatSlot(revision.newSlot),
+                  messageSettings,
+                );
+                const phone = revision.job.customerPhone;
+                return (
+                  <div key={revision.job.id} className="p-3 bg-white/5 border border-white/10 rounded-xl space-y-2">
+                    <p className="text-xs text-slate-500">
+                      {revision.job.customerName || `Job ${worksheet.jobs.indexOf(revision.job) + 1}`}
+                      {phone && ` • ${phone}`}
+                    </p>
+                    <p className="text-sm text-slate-200 whitespace-pre-wrap">{text}</p>
+                    <div className="flex justify-end gap-2">
+                      {normalisePhone(phone) && (
+                        <>
+                          <a
+                            href={getSmsUrl(phone, text)}
+                            className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-xs text-slate-200"
+                          >
+                            SMS
+                          </a>
+                          <a
+                            href={getWhatsAppUrl(phone, text)}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="px-3 py-1.5 bg-emerald-600/20 hover:bg-emerald-600/30 border border-emerald-500/30 rounded-lg text-xs text-emerald-300"
+                          >
+                            WhatsApp
+                          </a>
+                        </>
+                      )}
+                      <button
+                        onClick={() => handleCopy(revision.job.id, text)}
+                        className="p-1.5 rounded-lg text-slate-400 hover:text-cyan-400 hover:bg-cyan-500/10"
+                        title="Copy message"
+                      >
+                        {copiedJobId === revision.job.id ? <CheckIcon /> : <CopyIcon />}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-300">
+              No window moves by more than {formatMinutes(scheduleSettings.lateThresholdMinutes)}, so no customer needs a revised ETA.
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleApply}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-medium"
+            >
+              Apply new windows
+            </button>
+            <button
+              onClick={() => setRevisions(null)}
+              className="px-4 py-2 text-slate-400 hover:text-white hover:bg-white/5 rounded-lg text-sm"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,702 @@
+import React, { useEffect, useState } from 'react';
+import {
+  conversationRepository,
+  messagesRepository,
+  quarantineRepository,
+  routeCacheRepository,
+  voiceNoteRepository,
+  worksheetRepository,
+} from '../services/storage';
+import { clearRouteCache, getRouteCacheStats, subscribeRouteCacheStats } from '../services/routeCache';
+import {
+  DEFAULT_ASSISTANT_SETTINGS,
+  DEFAULT_SCHEDULE_SETTINGS,
+  DEFAULT_MAP_SETTINGS,
+  DEFAULT_MESSAGE_TEMPLATES,
+  loadAssistantSettings,
+  loadMapSettings,
+  loadMessageSettings,
+  loadRoutingSettings,
+  loadScheduleSettings,
+  loadTranscriptionSettings,
+  saveAssistantSettings,
+  saveMapSettings,
+  saveMessageSettings,
+  saveRoutingSettings,
+  saveScheduleSettings,
+  saveTranscriptionSettings,
+  type AssistantSettings,
+  type JobDurationRule,
+  type MapSettings,
+  type MessageSettings,
+  type MessageTemplateId,
+  type RoutingSettings,
+  type ScheduleSettings,
+  type TranscriptionSettings,
+} from '../services/settings';
+import { ROUTING_PROVIDER_LABELS } from '../services/routingProviders';
+import { findUnknownPlaceholders, MESSAGE_PLACEHOLDERS } from '../services/messageTemplates';
+import { downloadFile } from '../services/download';
+import {
+  WHISPER_MODELS,
+  getTranscriptionState,
+  loadTranscriptionModel,
+  subscribeTranscriptionState,
+} from '../services/transcriptionService';
+import {
+  LLM_MODELS,
+  assessModelFit,
+  checkGpuCapability,
+  deleteCachedModel,
+  formatMegabytes,
+  getLlmModel,
+  listCachedModels,
+  type CachedModel,
+  type GpuCapability,
+} from '../services/llmModels';
+import { useRepositoryList } from '../hooks/useRepositoryList';
+
+const inputClass = 'w-full px-4 py-3 bg-black/30 border border-white/10 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500/50';
+
+// Ignores a cleared or invalid field instead of saving zero
+const toMinutes = (value: string, fallback: number) => {
+  const minutes = Math.round(Number(value));
+  return value !== '' && Number.isFinite(minutes) && minutes >= 0 ? minutes : fallback;
+};
+
+// Sampling temperatures outside 0-2 are rejected by the engine
+const toTemperature = (value: string, fallback: number) => {
+  const temperature = Number(value);
+  return value !== '' && Number.isFinite(temperature) ? Math.min(2, Math.max(0, temperature)) : fallback;
+};
+
+const toReplyTokens = (value: string, fallback: number) => {
+  const tokens = Math.round(Number(value));
+  return value !== '' && Number.isFinite(tokens) && tokens > 0 ? tokens : fallback;
+};
+
+const NumberSetting: React.FC<{ label: string; value: number; onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <div>
+    <label className="block text-sm text-slate-400 mb-2">{label}</label>
+    <input
+      type="number"
+      min={0}
+      step={5}
+      value={value}
+      onChange={(e) => onChange(toMinutes(e.target.value, value))}
+      className={inputClass}
+    />
+  </div>
+);
+
+export const SettingsView: React.FC = () => {
+  const [schedule, setSchedule] = useState<ScheduleSettings>(loadScheduleSettings);
+  const [routing, setRouting] = useState<RoutingSettings>(loadRoutingSettings);
+  const [map, setMap] = useState<MapSettings>(loadMapSettings);
+  const [messages, setMessages] = useState<MessageSettings>(loadMessageSettings);
+  const [transcription, setTranscription] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+  const [assistant, setAssistant] = useState<AssistantSettings>(loadAssistantSettings);
+  const [speechModel, setSpeechModel] = useState(getTranscriptionState);
+
+  const [cacheStats, setCacheStats] = useState(getRouteCacheStats);
+  const [cachedLookups, setCachedLookups] = useState<number | null>(null);
+  const [gpu, setGpu] = useState<GpuCapability | null>(null);
+  const [cachedModels, setCachedModels] = useState<CachedModel[] | null>(null); // null while measuring
+  const [deletingModelId, setDeletingModelId] = useState<string | null>(null);
+
+  useEffect(() => subscribeRouteCacheStats(() => setCacheStats(getRouteCacheStats())), []);
+  useEffect(() => subscribeTranscriptionState(() => setSpeechModel(getTranscriptionState())), []);
+
+  useEffect(() => {
+    const refresh = () => {
+      routeCacheRepository.count().then(setCachedLookups).catch(() => setCachedLookups(null));
+    };
+    refresh();
+    return routeCacheRepository.subscribe(refresh);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    checkGpuCapability().then(result => {
+      if (mounted) setGpu(result);
+    });
+    listCachedModels()
+      .then(models => {
+        if (mounted) setCachedModels(models);
+      })
+      .catch(e => {
+        console.error('Failed to read model cache:', e);
+        if (mounted) setCachedModels([]);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  // Records that failed validation on load
+  const { items: quarantined } = useRepositoryList(quarantineRepository);
+
+  const updateSchedule = (changes: Partial<ScheduleSettings>) => {
+    const next = { ...schedule, ...changes };
+    setSchedule(next);
+    saveScheduleSettings(next);
+  };
+
+  const updateRule = (index: number, changes: Partial<JobDurationRule>) => {
+    updateSchedule({
+      jobDurations: schedule.jobDurations.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const updateRouting = (changes: Partial<RoutingSettings>) => {
+    const next = { ...routing, ...changes };
+    setRouting(next);
+    saveRoutingSettings(next);
+  };
+
+  const updateMap = (changes: Partial<MapSettings>) => {
+    const next = { ...map, ...changes };
+    setMap(next);
+    saveMapSettings(next);
+  };
+
+  const updateMessages = (changes: Partial<MessageSettings>) => {
+    const next = { ...messages, ...changes };
+    setMessages(next);
+    saveMessageSettings(next);
+  };
+
+  const updateTemplateBody = (id: MessageTemplateId, body: string) => {
+    updateMessages({ templates: messages.templates.map(t => (t.id === id ? { ...t, body } : t)) });
+  };
+
+  const updateTranscription = (changes: Partial<TranscriptionSettings>) => {
+    const next = { ...transcription, ...changes };
+    setTranscription(next);
+    saveTranscriptionSettings(next);
+  };
+
+  const updateAssistant = (changes: Partial<AssistantSettings>) => {
+    const next = { ...assistant, ...changes };
+    setAssistant(next);
+    saveAssistantSettings(next);
+  };
+
+  const handleDeleteCachedModel = async (model: CachedModel) => {
+    if (!confirm(`Delete the downloaded files for ${model.label}? It will download again the next time it is used.`)) return;
+    setDeletingModelId(model.id);
+    try {
+      await deleteCachedModel(model.id);
+      setCachedModels(await listCachedModels());
+    } catch (e) {
+      console.error('Failed to delete cached model:', e);
+      alert('Failed to delete the model files');
+    } finally {
+      setDeletingModelId(null);
+    }
+  };
+
+  const selectedLlm = getLlmModel(assistant.model);
+  const selectedLlmFit = gpu && assessModelFit(selectedLlm, gpu);
+
+  // Failures are shown from the service state
+  const handleDownloadModel = () => {
+    loadTranscriptionModel().catch(e => console.error('Failed to load speech model:', e));
+  };
+
+  const isSelectedModelReady = speechModel.status === 'ready' && speechModel.model === transcription.model;
+
+  const moveProvider = (index: number, offset: number) => {
+    const providers = [...routing.providers];
+    const target = index + offset;
+    if (target < 0 || target >= providers.length) return;
+    [providers[index], providers[target]] = [providers[target], providers[index]];
+    updateRouting({ providers });
+  };
+
+  const toggleProvider = (index: number) => {
+    updateRouting({
+      providers: routing.providers.map((p, i) => (i === index ? { ...p, enabled: !p.enabled } : p)),
+    });
+  };
+
+  const handleExportQuarantine = () => {
+    downloadFile(
+      `fsd-quarantine-${new Date().toISOString().slice(0, 10)}.json`,
+      JSON.stringify(quarantined, null, 2),
+      'application/json',
+    );
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <header className="space-y-4 mb-8">
+        <h1 className="text-4xl font-black tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-white via-slate-200 to-slate-500">
+          Settings
+        </h1>
+      </header>
+
+      <div className="space-y-6">
+        {/* Agent Settings */}
+        <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Parts Search Agent</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Agent API URL</label>
+              <input
+                type="text"
+                defaultValue={localStorage.getItem('agentApiUrl') || 'http://localhost:8000'}
+                onChange={(e) => localStorage.setItem('agentApiUrl', e.target.value)}
+                className={inputClass}
+                placeholder="http://your-pc:8000"
+              />
+              <p className="text-xs text-slate-500 mt-2">
+                The URL of your home PC running the GiasTech browser agent.
+                Use Tailscale or Cloudflare Tunnel to access remotely.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Scheduling */}
+        <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Scheduling</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Start of day</label>
+              <input
+                type="time"
+                value={schedule.dayStart}
+                onChange={(e) => e.target.value && updateSchedule({ dayStart: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <NumberSetting label="Fallback drive time (min)" value={schedule.fallbackTravelMinutes} onChange={(v) => updateSchedule({ fallbackTravelMinutes: v })} />
+            <NumberSetting label="First arrival window (min)" value={schedule.firstWindowMinutes} onChange={(v) => updateSchedule({ firstWindowMinutes: v })} />
+            <NumberSetting label="Arrival window (min)" value={schedule.windowMinutes} onChange={(v) => updateSchedule({ windowMinutes: v })} />
+            <NumberSetting label="Default time on site (min)" value={schedule.defaultJobMinutes} onChange={(v) => updateSchedule({ defaultJobMinutes: v })} />
+            <NumberSetting label="Revised ETA threshold (min)" value={schedule.lateThresholdMinutes} onChange={(v) => updateSchedule({ lateThresholdMinutes: v })} />
+          </div>
+
+          <div className="mt-6 space-y-2">
+            <label className="block text-sm text-slate-400">Time on site by product type</label>
+            <p className="text-xs text-slate-500">
+              The first rule whose text appears in a job's product type sets its duration.
+            </p>
+            {schedule.jobDurations.map((rule, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  value={rule.match}
+                  onChange={(e) => updateRule(index, { match: e.target.value })}
+                  placeholder="e.g. dishwasher"
+                  className={`${inputClass} flex-1`}
+                />
+                <input
+                  type="number"
+                  min={5}
+                  step={5}
+                  value={rule.minutes}
+                  onChange={(e) => updateRule(index, { minutes: toMinutes(e.target.value, rule.minutes) })}
+                  className={`${inputClass} !w-24`}
+                />
+                <button
+                  onClick={() => updateSchedule({ jobDurations: schedule.jobDurations.filter((_, i) => i !== index) })}
+                  className="px-3 text-slate-500 hover:text-red-400 transition-colors"
+                  aria-label="Remove rule"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={() => updateSchedule({ jobDurations: [...schedule.jobDurations, { match: '', minutes: schedule.defaultJobMinutes }] })}
+                className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200 rounded-xl text-sm transition-colors"
+              >
+                Add rule
+              </button>
+              <button
+                onClick={() => updateSchedule(DEFAULT_SCHEDULE_SETTINGS)}
+                className="px-4 py-2 text-slate-400 hover:text-white text-sm transition-colors"
+              >
+                Reset to defaults
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Customer Messages */}
+        <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Customer Messages</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Engineer name</label>
+              <input
+                type="text"
+                value={messages.engineerName}
+                onChange={(e) => updateMessages({ engineerName: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <p className="text-xs text-slate-500">
+              Placeholders: {MESSAGE_PLACEHOLDERS.map(p => `{{${p.key}}}`).join(', ')}.
+              Add a fallback for empty values with a bar, e.g. {'{{customerName|there}}'}.
+            </p>
+            {messages.templates.map(template => {
+              const unknown = findUnknownPlaceholders(template.body);
+              return (
+                <div key={template.id}>
+                  <label className="block text-sm text-slate-400 mb-2">{template.label}</label>
+                  <textarea
+                    value={template.body}
+                    onChange={(e) => updateTemplateBody(template.id, e.target.value)}
+                    rows={4}
+                    className={`${inputClass} text-sm resize-y`}
+                  />
+                  {unknown.length > 0 && (
+                    <p className="text-xs text-amber-400 mt-1">
+                      Unknown placeholder{unknown.length !== 1 ? 's' : ''}: {unknown.join(', ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            <button
+              onClick={() => updateMessages({ templates: DEFAULT_MESSAGE_TEMPLATES })}
+              className="px-4 py-2 text-slate-400 hover:text-white text-sm transition-colors"
+            >
+              Reset templates to defaults
+            </button>
+          </div>
+        </div>
+
+        {/* Routing */}
+        <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Routing</h2>
+          <p className="text-xs text-slate-500 mb-3">
+            Enabled providers are tried from the top. If one is down or can't answer, the next is used.
+          </p>
+          <ul className="space-y-2">
+            {routing.providers.map((provider, index) => (
+              <li key={provider.id} className="flex items-center gap-3 px-4 py-3 bg-black/30 border border-white/10 rounded-xl">
+                <input
+                  type="checkbox"
+                  checked={provider.enabled}
+                  onChange={() => toggleProvider(index)}
+                  className="accent-cyan-500"
+                />
+                <span className={`flex-1 text-sm ${provider.enabled ? 'text-white' : 'text-slate-500'}`}>
+                  {ROUTING_PROVIDER_LABELS[provider.id]}
+                </span>
+                <button
+                  onClick={() => moveProvider(index, -1)}
+                  disabled={index === 0}
+                  className="px-2 text-slate-400 hover:text-white disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveProvider(index, 1)}
+                  disabled={index === routing.providers.length - 1}
+                  className="px-2 text-slate-400 hover:text-white disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Self-hosted OSRM URL</label>
+              <input
+                type="text"
+                value={routing.osrmUrl}
+                onChange={(e) => updateRouting({ osrmUrl: e.target.value.trim() })}
+                className={inputClass}
+                placeholder="http://your-pc:5000"
+              />
+            </div>
+            <NumberSetting label="Offline average speed (mph)" value={routing.averageSpeedMph} onChange={(v) => updateRouting({ averageSpeedMph: v })} />
+          </div>
+
+          <div className="mt-6 pt-6 border-t border-white/10 flex flex-wrap items-center justify-between gap-3">
+            <div className="text-sm text-slate-400 space-y-1">
+              <p>
+                Lookup cache this session: <span className="text-white font-mono">{cacheStats.hits}</span> hits,{' '}
+                <span className="text-white font-mono">{cacheStats.misses}</span> misses
+                {cacheStats.hits + cacheStats.misses > 0 && (
+                  <span className="text-slate-500"> ({Math.round((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100)}% hit rate)</span>
+                )}
+              </p>
+              {cachedLookups !== null && <p className="text-xs text-slate-500">{cachedLookups} addresses and routes saved on this device</p>}
+            </div>
+            <button
+              onClick={() => clearRouteCache().catch(e => console.error(e))}
+              className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200 rounded-xl text-sm transition-colors"
+            >
+              Clear cache
+            </button>
+          </div>
+        </div>
+
+        {/* Map */}
+        <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Map</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Tile URL</label>
+              <input
+                type="text"
+                value={map.tileUrl}
+                onChange={(e) => updateMap({ tileUrl: e.target.value.trim() })}
+                className={inputClass}
+                placeholder={DEFAULT_MAP_SETTINGS.tileUrl}
+              />
+              <p className="text-xs text-slate-500 mt-2">
+                Use {'{z}'}, {'{x}'} and {'{y}'} (and optionally {'{s}'}) to point at a local tile server.
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Attribution</label>
+              <input
+                type="text"
+                value={map.attribution}
+                onChange={(e) => updateMap({ attribution: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Voice Transcription */}
+        <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Voice Transcription</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Speech model</label>
+              <select
+                value={transcription.model}
+                onChange={(e) => updateTranscription({ model: e.target.value as TranscriptionSettings['model'] })}
+                className={inputClass}
+              >
+                {WHISPER_MODELS.map(model => (
+                  <option key={model.id} value={model.id}>
+                    {model.label} (~{model.sizeMb} MB)
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-2">
+                Larger models are more accurate but slower, as speech runs on the CPU. The model downloads on the
+                first mic tap unless you download it now.
+              </p>
+            </div>
+
+            {speechModel.status === 'loading' && speechModel.model === transcription.model ? (
+              <div className="space-y-2">
+                <div className="w-full h-2 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-cyan-500 to-emerald-500 transition-all duration-300"
+                    style={{ width: `${speechModel.progress}%` }}
+                  />
+                </div>
+                <p className="text-sm text-slate-400">Downloading… {speechModel.progress}%</p>
+              </div>
+            ) : (
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-slate-400">
+                  {isSelectedModelReady ? 'Loaded' : 'Not loaded'}
+                </p>
+                {!isSelectedModelReady && (
+                  <button
+                    onClick={handleDownloadModel}
+                    className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200 rounded-xl text-sm font-medium transition-colors"
+                  >
+                    Download now
+                  </button>
+                )}
+              </div>
+            )}
+            {speechModel.status === 'error' && <p className="text-sm text-red-400">{speechModel.error}</p>}
+          </div>
+        </div>
+
+        {/* Local Assistant */}
+        <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Local Assistant</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Model</label>
+              <select
+                value={selectedLlm.id}
+                onChange={(e) => updateAssistant({ model: e.target.value as AssistantSettings['model'] })}
+                className={inputClass}
+              >
+                {LLM_MODELS.map(model => {
+                  const fit = gpu && assessModelFit(model, gpu);
+                  return (
+                    <option key={model.id} value={model.id}>
+                      {model.label} (~{formatMegabytes(model.downloadMb)} download, {formatMegabytes(model.vramMb)} GPU memory)
+                      {fit && !fit.canRun ? ' - not supported here' : ''}
+                    </option>
+                  );
+                })}
+              </select>
+              <p className="text-xs text-slate-500 mt-2">
+                {gpu === null
+                  ? 'Checking WebGPU…'
+                  : gpu.supported
+                    ? `WebGPU available${gpu.adapter ? ` on ${gpu.adapter}` : ''}${gpu.hasShaderF16 ? '' : ', without 16-bit float support'}.`
+                    : gpu.reason}{' '}
+                Smaller models load faster and suit phones; larger ones give better answers. The change applies the
+                next time the assistant is opened.
+              </p>
+              {selectedLlmFit?.warning && (
+                <p className={`text-sm mt-2 ${selectedLlmFit.canRun ? 'text-amber-400' : 'text-red-400'}`}>{selectedLlmFit.warning}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-slate-400 mb-2">Temperature</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={assistant.temperature}
+                  onChange={(e) => updateAssistant({ temperature: toTemperature(e.target.value, assistant.temperature) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-2">Max reply length (tokens)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={128}
+                  value={assistant.maxTokens}
+                  onChange={(e) => updateAssistant({ maxTokens: toReplyTokens(e.target.value, assistant.maxTokens) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              Lower temperatures give more consistent answers. Replies stop at the maximum length, so raise it if
+              answers are cut off.
+            </p>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm text-slate-400">System prompt</label>
+                {assistant.systemPrompt !== DEFAULT_ASSISTANT_SETTINGS.systemPrompt && (
+                  <button
+                    onClick={() => updateAssistant({ systemPrompt: DEFAULT_ASSISTANT_SETTINGS.systemPrompt })}
+                    className="text-xs text-slate-400 hover:text-white"
+                  >
+                    Reset to default
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={assistant.systemPrompt}
+                onChange={(e) => updateAssistant({ systemPrompt: e.target.value })}
+                rows={3}
+                className={`${inputClass} text-sm resize-y`}
+              />
+              <p className="text-xs text-slate-500 mt-2">
+                Sent before every conversation, ahead of the worksheet details the assistant is given.
+              </p>
+            </div>
+          </div>
+
+          <div className="mt-6 pt-6 border-t border-white/10 space-y-3">
+            <p className="text-sm text-slate-400">Downloaded models</p>
+            {cachedModels === null ? (
+              <p className="text-xs text-slate-500">Measuring…</p>
+            ) : cachedModels.length === 0 ? (
+              <p className="text-xs text-slate-500">No model files are stored on this device.</p>
+            ) : (
+              <ul className="space-y-2">
+                {cachedModels.map(model => (
+                  <li key={model.id} className="flex items-center justify-between gap-3 p-3 bg-white/5 border border-white/10 rounded-xl">
+                    <div className="min-w-0">
+                      <p className="text-sm text-white truncate">{model.label}</p>
+                      <p className="text-xs text-slate-500">
+                        {formatMegabytes(model.bytes / (1024 * 1024))} in {model.files} file{model.files !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteCachedModel(model)}
+                      disabled={deletingModelId !== null}
+                      className="px-3 py-1.5 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-400 rounded-lg text-xs transition-colors disabled:opacity-50"
+                    >
+                      {deletingModelId === model.id ? 'Deleting…' : 'Delete'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Data Management */}
+        <div className="bg-black/30 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Data Management</h2>
+          <button
+            onClick={async () => {
+              if (confirm('Clear all saved worksheets, messages, voice notes and assistant conversations? This cannot be undone.')) {
+                try {
+                  await Promise.all([
+                    worksheetRepository.clear(),
+                    messagesRepository.clear(),
+                    voiceNoteRepository.clear(),
+                    conversationRepository.clear(),
+                  ]);
+                  alert('Data cleared');
+                } catch (e) {
+                  console.error(e);
+                  alert('Failed to clear data');
+                }
+              }
+            }}
+            className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-400 rounded-xl text-sm transition-colors"
+          >
+            Clear All Data
+          </button>
+
+          {quarantined.length > 0 && (
+            <div className="mt-6 pt-6 border-t border-white/10 space-y-3">
+              <p className="text-sm text-amber-400">
+                {quarantined.length} saved record{quarantined.length !== 1 ? 's' : ''} could not be read and {quarantined.length !== 1 ? 'were' : 'was'} set aside.
+              </p>
+              <ul className="text-xs text-slate-500 space-y-1">
+                {quarantined.map(q => (
+                  <li key={q.id} className="font-mono truncate">{q.id} — {q.reason}</li>
+                ))}
+              </ul>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleExportQuarantine}
+                  className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200 rounded-xl text-sm transition-colors"
+                >
+                  Export as JSON
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm('Discard all unreadable records? This cannot be undone.')) {
+                      quarantineRepository.clear().catch(e => console.error(e));
+                    }
+                  }}
+                  className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-red-400 rounded-xl text-sm transition-colors"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { 
   PlusIcon, 
   ChatIcon,
@@ -9,6 +9,9 @@ import {
   ChevronRightIcon,
   BrainIcon
 } from './Icons'; 
+import { useRepositoryList } from '../hooks/useRepositoryList';
+import { conversationRepository, messagesRepository, worksheetRepository } from '../services/storage';
+import { sortByLastUsed } from '../services/conversations';
 
 interface SidebarProps {
   activeView: string;
@@ -17,62 +20,20 @@ interface SidebarProps {
   onClose: () => void;
 }
 
-interface SavedItem {
-  id: string;
-  dateLabel: string;
-  date: string;
-}
-
 export const Sidebar: React.FC<SidebarProps> = ({ activeView, onNavigate, isOpen, onClose }) => {
-  const [worksheets, setWorksheets] = useState<SavedItem[]>([]);
-  const [messages, setMessages] = useState<SavedItem[]>([]);
-  const [expandedSections, setExpandedSections] = useState<{ worksheets: boolean; messages: boolean }>({
+  const { items: savedWorksheets } = useRepositoryList(worksheetRepository);
+  const { items: savedMessages } = useRepositoryList(messagesRepository);
+  const worksheets = savedWorksheets.slice(0, 5);
+  const messages = savedMessages.slice(0, 5);
+  const { items: savedConversations } = useRepositoryList(conversationRepository);
+  const conversations = sortByLastUsed(savedConversations).slice(0, 8);
+  const [expandedSections, setExpandedSections] = useState<{ worksheets: boolean; messages: boolean; conversations: boolean }>({
     worksheets: false,
     messages: false,
+    conversations: false,
   });
 
-  // Load saved worksheets and messages from localStorage
-  useEffect(() => {
-    loadSavedItems();
-  }, [activeView]);
-
-  const loadSavedItems = () => {
-    const worksheetItems: SavedItem[] = [];
-    const messageItems: SavedItem[] = [];
-
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key) {
-        try {
-          if (key.startsWith('worksheet_')) {
-            const data = JSON.parse(localStorage.getItem(key) || '');
-            worksheetItems.push({
-              id: key.replace('worksheet_', ''),
-              dateLabel: data.dateLabel || 'Untitled',
-              date: data.createdAt || data.date,
-            });
-          } else if (key.startsWith('messages_')) {
-            const data = JSON.parse(localStorage.getItem(key) || '');
-            messageItems.push({
-              id: key.replace('messages_', ''),
-              dateLabel: data.dateLabel || 'Untitled',
-              date: data.createdAt || data.date,
-            });
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
-      }
-    }
-
-    worksheetItems.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    messageItems.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-    setWorksheets(worksheetItems.slice(0, 5));
-    setMessages(messageItems.slice(0, 5));
-  };
-
-  const toggleSection = (section: 'worksheets' | 'messages') => {
+  const toggleSection = (section: 'worksheets' | 'messages' | 'conversations') => {
     setExpandedSections(prev => ({
       ...prev,
       [section]: !prev[section]
@@ -132,7 +93,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeView, onNavigate, isOpen
     return (
       <button
         onClick={() => handleNavigate(id)}
-        className={`w-full text-left pl-12 pr-4 py-2 text-sm rounded-lg transition-colors ${
+        className={`w-full text-left pl-12 pr-4 py-2 text-sm rounded-lg transition-colors truncate ${
           isActive 
             ? 'text-cyan-400 bg-cyan-500/10' 
             : 'text-slate-500 hover:text-slate-300 hover:bg-white/5'
@@ -172,8 +133,35 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeView, onNavigate, isOpen
         {/* Tomorrow - Main upload/generate */}
         <NavButton id="tomorrow" label="Plan Tomorrow" icon={<PlusIcon />} />
 
-        {/* Local Assistant (NEW) */}
-        <NavButton id="local_assistant" label="Local Assistant" icon={<BrainIcon />} />
+        {/* Local Assistant, with saved conversations */}
+        <div>
+          <NavButton 
+            id="local_assistant" 
+            label="Local Assistant" 
+            icon={<BrainIcon />} 
+            hasChildren={conversations.length > 0}
+            isExpanded={expandedSections.conversations}
+            onToggle={() => toggleSection('conversations')}
+          />
+
+          {expandedSections.conversations && conversations.length > 0 && (
+            <div className="mt-1 space-y-0.5 animate-in fade-in slide-in-from-top-2 duration-200">
+              <button
+                onClick={() => handleNavigate('local_assistant')}
+                className="w-full text-left pl-12 pr-4 py-2 text-xs text-slate-600 hover:text-cyan-400 transition-colors"
+              >
+                + New conversation
+              </button>
+              {conversations.map(conversation => (
+                <SubNavItem 
+                  key={conversation.id} 
+                  id={`local_assistant_${conversation.id}`} 
+                  label={conversation.title} 
+                />
+              ))}
+            </div>
+          )}
+        </div>
 
         {/* Worksheets Section */}
         <div className="pt-2">
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon } from './Icons';
+import { cropImageRegion } from '../services/provenance';
+import type { FieldProvenance } from '../types';
+
+interface SourcePreviewProps {
+  label: string;
+  value: string;
+  provenance: FieldProvenance;
+  imageUrl?: string; // Full screenshot, only available before the worksheet is saved
+  onClose: () => void;
+}
+
+export const SourcePreview: React.FC<SourcePreviewProps> = ({ label, value, provenance, imageUrl, onClose }) => {
+  const [cropped, setCropped] = useState<string | null>(provenance.snippet || null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    setFailed(false);
+
+    if (provenance.snippet) {
+      setCropped(provenance.snippet);
+      return;
+    }
+    if (!imageUrl) {
+      setCropped(null);
+      return;
+    }
+
+    cropImageRegion(imageUrl, provenance.box)
+      .then(url => mounted && setCropped(url))
+      .catch(() => mounted && setFailed(true));
+
+    return () => {
+      mounted = false;
+    };
+  }, [imageUrl, provenance]);
+
+  const confidencePct = Math.round(provenance.confidence * 100);
+
+  return (
+    <div className="p-4 bg-amber-500/5 border border-amber-500/20 rounded-xl space-y-3 animate-in fade-in">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-amber-400 uppercase tracking-wider">
+          {label} • Screenshot {provenance.sourceImage + 1} • {confidencePct}% confidence
+        </p>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+          <CloseIcon />
+        </button>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-4 items-start">
+        {cropped ? (
+          <img src={cropped} alt={`Source of ${label}`} className="max-w-full sm:max-w-xs rounded-lg border border-white/10" />
+        ) : (
+          <p className="text-xs text-slate-500">
+            {failed ? 'Could not load the source screenshot.' : 'Source screenshot not available.'}
+          </p>
+        )}
+        <p className="text-sm text-white font-mono break-all">{value || 'N/A'}</p>
+      </div>
+    </div>
+  );
+};
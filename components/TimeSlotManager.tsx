@@ -1,40 +1,140 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { TravelConnector } from './TravelConnector';
-import { getCurrentPosition, reverseGeocode } from '../services/routingService';
+import { DayMap } from './DayMap';
+import { NavigationExport } from './NavigationExport';
+import {
+  buildTravelMatrix,
+  estimateTravelTime,
+  getCurrentPosition,
+  reverseGeocode,
+  RoutingUnavailableError,
+} from '../services/routingService';
+import { optimiseRoute, type RouteOptimisation } from '../services/routeOptimiser';
+import { cascadeTimeSlots, generateTimeSlots, getJobDuration, SLOT_STEP_MINUTES } from '../services/scheduler';
+import { loadScheduleSettings } from '../services/settings';
+import { formatClockTime, formatMinutes } from '../services/clock';
 import { LocationIcon } from './Icons';
-
-type TimeSlot = {
-  start: string;
-  end: string;
-};
+import type { TimeSlot } from '../types';
 
 interface TimeSlotManagerProps {
   jobCount: number;
   timeSlots: TimeSlot[];
   onTimeSlotsChange: (slots: TimeSlot[]) => void;
+  startAddress: string; // Saved with the worksheet so its map can show where the day starts
+  onStartAddressChange: (address: string) => void;
   addresses?: string[];
+  productTypes?: string[]; // Used to estimate time on site for each job
+  onReorder?: (order: number[]) => void; // Receives the new job order as indices into the current one
 }
 
+const routeKey = (start: string, addresses: string[]) => [start, ...addresses].join('\n');
+
+/** Drive time for display; a matrix with an unreachable leg has no meaningful total. */
+const formatDrive = (seconds: number) => (Number.isFinite(seconds) ? formatMinutes(seconds / 60) : 'no route');
+
 const timeOptions = (() => {
   const options = [];
-  for (let totalMinutes = 450; totalMinutes <= 1080; totalMinutes += 30) {
-    const hours = Math.floor(totalMinutes / 60);
-    const minutes = totalMinutes % 60;
-    options.push(`${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`);
+  for (let totalMinutes = 5 * 60; totalMinutes <= 21 * 60; totalMinutes += SLOT_STEP_MINUTES) {
+    options.push(formatClockTime(totalMinutes));
   }
   return options;
 })();
 
-export const TimeSlotManager: React.FC<TimeSlotManagerProps> = ({ jobCount, timeSlots, onTimeSlotsChange, addresses = [] }) => {
-  const [startAddress, setStartAddress] = useState('');
+export const TimeSlotManager: React.FC<TimeSlotManagerProps> = ({
+  jobCount,
+  timeSlots,
+  onTimeSlotsChange,
+  startAddress,
+  onStartAddressChange,
+  addresses = [],
+  productTypes = [],
+  onReorder,
+}) => {
+  const [settings] = useState(loadScheduleSettings);
   const [isLocating, setIsLocating] = useState(false);
+  // Drive time into each job in minutes (index 0 is from the start address); null when unknown.
+  // Kept with the address order it was measured for.
+  const [travel, setTravel] = useState<{ key: string; minutes: (number | null)[] }>({ key: '', minutes: [] });
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planNote, setPlanNote] = useState<string | null>(null);
+  const [isOptimising, setIsOptimising] = useState(false);
+  const [optimisation, setOptimisation] = useState<RouteOptimisation | null>(null);
+  const [optimiseError, setOptimiseError] = useState<string | null>(null);
+
+  const handleOptimise = async () => {
+    setIsOptimising(true);
+    setOptimiseError(null);
+    setOptimisation(null);
+    try {
+      const matrix = await buildTravelMatrix([startAddress, ...addresses]);
+      setOptimisation(optimiseRoute(matrix));
+    } catch (error) {
+      console.error(error);
+      setOptimiseError(error instanceof Error ? error.message : 'Could not optimise route');
+    } finally {
+      setIsOptimising(false);
+    }
+  };
+
+  const handleApplyOptimisation = () => {
+    if (optimisation && onReorder) {
+      const { order, travelMinutes: legs } = optimisation;
+      onReorder(order);
+      // Each window is re-planned for the job now in it, from the drive times just measured
+      setTravel({ key: routeKey(startAddress, order.map(i => addresses[i])), minutes: legs });
+      onTimeSlotsChange(generateTimeSlots(order.map(i => durations[i]), legs, settings));
+    }
+    setOptimisation(null);
+  };
+
+  const durations = useMemo(
+    () => Array.from({ length: jobCount }, (_, i) => getJobDuration(productTypes[i] || '', settings)),
+    [jobCount, productTypes, settings],
+  );
+
+  // Estimates belong to a particular order of addresses, so they lapse when jobs move
+  const addressKey = routeKey(startAddress, addresses);
+  const travelMinutes = travel.key === addressKey ? travel.minutes : [];
+
+  const handlePlanWithTravel = async () => {
+    setIsPlanning(true);
+    setPlanNote(null);
+    try {
+      // One leg at a time to stay inside the public geocoder's rate limit
+      const legs: (number | null)[] = [];
+      let offline = false;
+      for (let i = 0; i < jobCount; i++) {
+        const origin = i === 0 ? startAddress : addresses[i - 1];
+        const route = origin && addresses[i]
+          ? await estimateTravelTime(origin, addresses[i]).catch(e => {
+            if (!(e instanceof RoutingUnavailableError)) throw e;
+            offline = true;
+            return null;
+          })
+          : null;
+        legs.push(route ? Math.round(route.durationSeconds / 60) : null);
+      }
+      if (offline) setPlanNote('Some addresses need a network connection to locate, so their drive times are the default estimate.');
+      setTravel({ key: addressKey, minutes: legs });
+      onTimeSlotsChange(generateTimeSlots(durations, legs, settings));
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const mapStops = useMemo(
+    () => addresses.map((address, index) => ({ id: String(index), label: String(index + 1), address })),
+    [addresses],
+  );
+
+  const isAlreadyOptimal = optimisation && optimisation.order.every((jobIndex, i) => jobIndex === i);
 
   const handleUseGPS = async () => {
     setIsLocating(true);
     try {
       const pos = await getCurrentPosition();
       const address = await reverseGeocode(pos.lat, pos.lon);
-      setStartAddress(address);
+      onStartAddressChange(address);
     } catch (error) {
       console.error(error);
       alert('Could not get location. Please check permissions.');
@@ -43,47 +143,33 @@ export const TimeSlotManager: React.FC<TimeSlotManagerProps> = ({ jobCount, time
     }
   };
 
+  // First pass before any routing: drive times fall back to the configured estimate
   useEffect(() => {
     if (jobCount > 0 && timeSlots.length === 0) {
-      const initialSlots: TimeSlot[] = [];
-      // Default first job
-      initialSlots.push({ start: '07:30', end: '08:30' });
-      
-      let currentStartMinutes = 8 * 60; 
-      for (let i = 1; i < jobCount; i++) {
-        const hours = Math.floor(currentStartMinutes / 60);
-        const minutes = currentStartMinutes % 60;
-        const startStr = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
-        
-        const endMinutes = currentStartMinutes + 120;
-        const endH = Math.floor(endMinutes / 60);
-        const endM = endMinutes % 60;
-        const endStr = `${String(endH).padStart(2, '0')}:${String(endM).padStart(2, '0')}`;
-
-        initialSlots.push({ start: startStr, end: endStr });
-        currentStartMinutes += 120; 
-      }
-      onTimeSlotsChange(initialSlots);
+      onTimeSlotsChange(generateTimeSlots(durations, [], settings));
     }
-  }, [jobCount, onTimeSlotsChange, timeSlots.length]);
+  }, [jobCount, durations, settings, onTimeSlotsChange, timeSlots.length]);
 
   const handleStartTimeChange = (index: number, newStart: string) => {
-    const newSlots = [...timeSlots];
-    const [h, m] = newStart.split(':').map(Number);
-    const startMins = h * 60 + m;
-    const endMins = startMins + 120;
-    const endH = Math.floor(endMins / 60);
-    const endM = endMins % 60;
-    const newEnd = `${String(endH).padStart(2, '0')}:${String(endM).padStart(2, '0')}`;
-    newSlots[index] = { start: newStart, end: newEnd };
-    onTimeSlotsChange(newSlots);
+    onTimeSlotsChange(cascadeTimeSlots(timeSlots, index, newStart, durations, travelMinutes, settings));
   };
 
   return (
     <div className="space-y-0">
-       <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500 mb-6">
-        Job Schedule
-      </h2>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+          Job Schedule
+        </h2>
+        <button
+          onClick={handlePlanWithTravel}
+          disabled={isPlanning || addresses.length === 0}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 text-slate-200 rounded-xl text-sm font-medium transition-colors disabled:opacity-50"
+          title={`Lay out the day from ${settings.dayStart} using drive times between jobs`}
+        >
+          {isPlanning ? 'Planning...' : 'Plan with travel times'}
+        </button>
+      </div>
+      {planNote && <p className="-mt-4 mb-6 text-xs text-amber-400">{planNote}</p>}
 
       {/* Start of Day Section */}
       <div className="mb-8 bg-slate-800/50 border border-white/10 rounded-2xl p-6 relative z-20">
@@ -101,12 +187,80 @@ export const TimeSlotManager: React.FC<TimeSlotManagerProps> = ({ jobCount, time
         <input 
           type="text" 
           value={startAddress}
-          onChange={(e) => setStartAddress(e.target.value)}
+          onChange={(e) => onStartAddressChange(e.target.value)}
           placeholder="Enter starting address (e.g. Home)..."
           className="w-full bg-black/30 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-cyan-500/50 transition-all"
         />
+
+        {onReorder && addresses.length > 1 && (
+          <div className="mt-4 space-y-3">
+            <button
+              onClick={handleOptimise}
+              disabled={!startAddress || isOptimising}
+              className="px-4 py-2 bg-cyan-600/20 hover:bg-cyan-600/30 border border-cyan-500/30 text-cyan-300 rounded-xl text-sm font-medium transition-colors disabled:opacity-50"
+              title={startAddress ? 'Find a shorter job order' : 'Enter a start address first'}
+            >
+              {isOptimising ? 'Optimising...' : 'Optimise route'}
+            </button>
+
+            {optimiseError && <p className="text-sm text-red-400">{optimiseError}</p>}
+
+            {optimisation && (
+              <div className="p-4 bg-black/30 border border-white/10 rounded-xl space-y-3 animate-in fade-in">
+                {isAlreadyOptimal ? (
+                  <p className="text-sm text-slate-300">
+                    The current order is already the quickest found ({Number.isFinite(optimisation.beforeSeconds) ? `${formatDrive(optimisation.beforeSeconds)} driving` : 'some jobs have no driving route between them'}).
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      <span className="text-slate-400">Current: <span className="font-mono text-white">{formatDrive(optimisation.beforeSeconds)}</span></span>
+                      <span className="text-slate-600">→</span>
+                      <span className="text-slate-400">Optimised: <span className="font-mono text-cyan-300">{formatDrive(optimisation.afterSeconds)}</span></span>
+                      <span className="px-2 py-0.5 bg-emerald-500/20 text-emerald-400 rounded-lg text-xs">
+                        {Number.isFinite(optimisation.beforeSeconds)
+                          ? `saves ${formatMinutes((optimisation.beforeSeconds - optimisation.afterSeconds) / 60)}`
+                          : 'avoids a leg with no route'}
+                      </span>
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      New order: {optimisation.order.map(i => `Job ${i + 1}`).join(' → ')}
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleApplyOptimisation}
+                        className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-medium"
+                      >
+                        Apply new order
+                      </button>
+                      <button
+                        onClick={() => setOptimisation(null)}
+                        className="px-4 py-2 text-slate-400 hover:text-white hover:bg-white/5 rounded-lg text-sm"
+                      >
+                        Keep current
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
+      {addresses.length > 0 && (
+        <div className="mb-8">
+          <DayMap
+            stops={mapStops}
+            startAddress={startAddress}
+            onSelectStop={(index) => document.getElementById(`slot-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })}
+          />
+          <div className="mt-4">
+            <NavigationExport stops={mapStops} startAddress={startAddress} routeName="Tomorrow's jobs" />
+          </div>
+        </div>
+      )}
+
       {/* Initial Travel Segment */}
       {startAddress && addresses.length > 0 && (
           <div className="pl-8 relative z-0 mb-6">
@@ -115,7 +269,7 @@ export const TimeSlotManager: React.FC<TimeSlotManagerProps> = ({ jobCount, time
       )}
 
       {timeSlots.map((slot, index) => (
-        <div key={index} className="relative">
+        <div key={index} id={`slot-${index}`} className="relative">
           
           {/* The Job Card */}
           <div className="relative z-10 group">
@@ -129,6 +283,9 @@ export const TimeSlotManager: React.FC<TimeSlotManagerProps> = ({ jobCount, time
                   <span className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">JOB</span>
                   <span className="text-2xl font-black text-white">{index + 1}</span>
                 </div>
+                <p className="mt-1 text-[10px] text-slate-500 text-center" title="Expected time on site">
+                  ~{formatMinutes(durations[index] ?? settings.defaultJobMinutes)}
+                </p>
               </div>
 
               {/* Time Controls */}
@@ -138,10 +295,10 @@ export const TimeSlotManager: React.FC<TimeSlotManagerProps> = ({ jobCount, time
                   <div className="relative">
                     <select
                       value={slot.start}
-                      disabled={index === 0}
                       onChange={(e) => handleStartTimeChange(index, e.target.value)}
                       className="w-full bg-black/50 border border-white/10 rounded-xl px-4 py-3 text-cyan-100 font-mono text-lg focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 outline-none appearance-none disabled:opacity-50 disabled:cursor-not-allowed transition-all hover:bg-white/5"
                     >
+                      {!timeOptions.includes(slot.start) && <option value={slot.start}>{slot.start}</option>}
                       {timeOptions.map(t => <option key={t} value={t}>{t}</option>)}
                     </select>
                   </div>
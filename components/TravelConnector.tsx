@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { estimateTravelTime, RouteResult } from '../services/routingService';
+import { estimateTravelTime, RouteResult, RoutingUnavailableError } from '../services/routingService';
 
 interface TravelConnectorProps {
   origin: string;
@@ -9,6 +9,7 @@ interface TravelConnectorProps {
 export const TravelConnector: React.FC<TravelConnectorProps> = ({ origin, destination }) => {
   const [route, setRoute] = useState<RouteResult | null>(null);
   const [loading, setLoading] = useState(true);
+  const [offline, setOffline] = useState(false);
 
   useEffect(() => {
     let mounted = true;
@@ -20,10 +21,18 @@ export const TravelConnector: React.FC<TravelConnectorProps> = ({ origin, destin
       }
       
       setLoading(true);
-      const result = await estimateTravelTime(origin, destination);
-      
+      let result: RouteResult | null = null;
+      let unreachable = false;
+      try {
+        result = await estimateTravelTime(origin, destination);
+      } catch (e) {
+        unreachable = e instanceof RoutingUnavailableError;
+        if (!unreachable) console.error('Route lookup failed', e);
+      }
+
       if (mounted) {
         setRoute(result);
+        setOffline(unreachable);
         setLoading(false);
       }
     };
@@ -57,7 +66,7 @@ export const TravelConnector: React.FC<TravelConnectorProps> = ({ origin, destin
                 <span className="text-[10px] uppercase tracking-wider opacity-60">View Map</span>
             </a>
         ) : (
-            <span>Route unavailable</span>
+            <span>{offline ? 'Needs a network connection to locate these addresses' : 'Route unavailable'}</span>
         )}
       </div>
     </div>
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { MicIcon, MicOffIcon } from './Icons';
+import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
+
+interface VoiceCommandBarProps {
+  activeJobLabel: string; // Which job commands without a job number apply to
+  onTranscript: (transcript: string) => string; // Runs a command or takes dictation; returns what happened
+}
+
+/** Hands-free control for the worksheet: each utterance is a command or a note for the active job. */
+export const VoiceCommandBar: React.FC<VoiceCommandBarProps> = ({ activeJobLabel, onTranscript }) => {
+  const [lastHeard, setLastHeard] = useState<{ transcript: string; outcome: string } | null>(null);
+
+  const { isListening, toggleListening, isSupported, isModelLoading, modelProgress, partialTranscript, error } = useSpeechRecognition({
+    onResult: (transcript) => setLastHeard({ transcript, outcome: onTranscript(transcript) }),
+  });
+
+  return (
+    <div className={`sticky top-4 z-30 bg-black/60 backdrop-blur-xl border rounded-2xl p-4 space-y-2 ${isListening ? 'border-red-500/40' : 'border-white/10'}`}>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={toggleListening}
+          disabled={!isSupported}
+          className={`p-3 rounded-xl transition-all ${
+            isListening
+              ? 'bg-red-500 text-white animate-pulse shadow-[0_0_15px_rgba(239,68,68,0.5)]'
+              : 'bg-white/10 text-slate-300 hover:bg-white/20 hover:text-white'
+          }`}
+          title={isListening ? 'Stop voice control' : 'Start voice control'}
+        >
+          {isListening ? <MicOffIcon /> : <MicIcon />}
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-white">
+            {isListening ? 'Listening for commands' : 'Hands-free mode'}
+            <span className="text-slate-400 font-normal"> • {activeJobLabel}</span>
+          </p>
+          <p className="text-xs text-slate-500 truncate">
+            "Mark job three complete", "add note: door seal torn", "next job", "read fault", "set error code E08"
+          </p>
+        </div>
+      </div>
+
+      {isListening && isModelLoading && (
+        <p className="text-xs text-slate-400">Downloading speech model… {modelProgress}%</p>
+      )}
+      {partialTranscript && <p className="text-sm text-slate-400 italic">{partialTranscript}…</p>}
+      {lastHeard && (
+        <div className="text-sm">
+          <span className="text-slate-500">Heard: </span>
+          <span className="text-slate-300">"{lastHeard.transcript}"</span>
+          <span className="text-cyan-300"> → {lastHeard.outcome}</span>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { TrashIcon } from './Icons';
+import { voiceNoteRepository } from '../services/storage';
+import { retryVoiceNote, voiceNoteFileName } from '../services/voiceNotes';
+import { getTranscriptionState, loadTranscriptionModel, subscribeTranscriptionState } from '../services/transcriptionService';
+import { downloadFile } from '../services/download';
+import { formatMinutes } from '../services/clock';
+import type { VoiceNote } from '../types';
+
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : formatMinutes(seconds / 60);
+
+const VoiceNoteItem: React.FC<{ note: VoiceNote; modelReady: boolean }> = ({ note, modelReady }) => {
+  // One object URL per recording, released when the note goes away. Keyed by ID since
+  // reloads hand back a new Blob for the same audio, which would restart playback.
+  const [audioUrl, setAudioUrl] = useState<string>();
+  useEffect(() => {
+    const url = URL.createObjectURL(note.audio);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [note.id]);
+
+  const handleDelete = () => {
+    if (confirm('Delete this recording and its transcript?')) {
+      voiceNoteRepository.delete(note.id).catch(e => console.error('Failed to delete voice note:', e));
+    }
+  };
+
+  const handleTranscribe = () => {
+    // A failed note goes back in the queue; either way the model has to be loaded for it to run
+    if (note.status === 'failed') retryVoiceNote(note).catch(e => console.error(e));
+    loadTranscriptionModel().catch(e => console.error('Failed to load speech model:', e));
+  };
+
+  return (
+    <div className="p-3 bg-white/5 border border-white/10 rounded-xl space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+        <span>{formatClock(note.createdAt)} • {formatDuration(note.durationSeconds)}</span>
+        <button onClick={handleDelete} className="p-1 rounded text-slate-500 hover:text-red-400" title="Delete recording">
+          <TrashIcon />
+        </button>
+      </div>
+      <audio controls preload="none" src={audioUrl} className="w-full h-8" />
+
+      {note.status === 'done' && (
+        <p className="text-sm text-slate-200 whitespace-pre-wrap">{note.transcript || <span className="text-slate-500 italic">No speech found</span>}</p>
+      )}
+      {note.status === 'transcribing' && <p className="text-xs text-cyan-300 animate-pulse">Transcribing…</p>}
+      {note.status === 'pending' && (
+        <p className="text-xs text-slate-400">
+          {modelReady ? 'Waiting to be transcribed' : 'Will be transcribed once the speech model is loaded'}
+        </p>
+      )}
+      {note.status === 'failed' && <p className="text-xs text-red-400">Transcription failed: {note.error}</p>}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {(note.status === 'failed' || (note.status === 'pending' && !modelReady)) && (
+          <button
+            onClick={handleTranscribe}
+            className="px-3 py-1.5 bg-cyan-600/20 hover:bg-cyan-600/30 border border-cyan-500/30 rounded-lg text-xs text-cyan-300"
+          >
+            Transcribe now
+          </button>
+        )}
+        <button
+          onClick={() => downloadFile(voiceNoteFileName(note, 'audio'), note.audio, note.mimeType)}
+          className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-xs text-slate-200"
+        >
+          Audio
+        </button>
+        {note.status === 'done' && note.transcript && (
+          <button
+            onClick={() => downloadFile(voiceNoteFileName(note, 'transcript'), note.transcript!, 'text/plain')}
+            className="px-3 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-xs text-slate-200"
+          >
+            Transcript
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/** Recordings attached to a job, each playable and exportable alongside its transcript. */
+export const VoiceNotes: React.FC<{ jobId: string }> = ({ jobId }) => {
+  const [notes, setNotes] = useState<VoiceNote[]>([]);
+  const [model, setModel] = useState(getTranscriptionState);
+
+  useEffect(() => subscribeTranscriptionState(() => setModel(getTranscriptionState())), []);
+
+  useEffect(() => {
+    let mounted = true;
+    const load = () => {
+      voiceNoteRepository.listForJob(jobId)
+        .then(items => {
+          if (mounted) setNotes(items);
+        })
+        .catch(e => console.error('Failed to load voice notes:', e));
+    };
+    load();
+    const unsubscribe = voiceNoteRepository.subscribe(load);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [jobId]);
+
+  if (notes.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-500 uppercase tracking-wider">Voice Notes</p>
+      {notes.map(note => (
+        <VoiceNoteItem key={note.id} note={note} modelReady={model.status === 'ready'} />
+      ))}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { CalendarIcon, ChevronRightIcon, TrashIcon } from './Icons';
 import { Modal } from './Modal';
+import { useRepositoryList } from '../hooks/useRepositoryList';
+import { messagesRepository, voiceNoteRepository, worksheetRepository } from '../services/storage';
 import type { SavedWorksheet } from '../types';
 
 interface WorksheetListProps {
@@ -8,51 +10,39 @@ interface WorksheetListProps {
 }
 
 export const WorksheetList: React.FC<WorksheetListProps> = ({ onSelectWorksheet }) => {
-  const [worksheets, setWorksheets] = useState<SavedWorksheet[]>([]);
+  const { items: savedWorksheets } = useRepositoryList(worksheetRepository);
   // Delete Modal State
   const [deleteModal, setDeleteModal] = useState<{ isOpen: boolean; id: string | null }>({
     isOpen: false,
     id: null
   });
 
-  useEffect(() => {
-    loadWorksheets();
-  }, []);
-
-  const loadWorksheets = () => {
-    const worksheetIds: SavedWorksheet[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('worksheet_')) {
-        try {
-          const data = JSON.parse(localStorage.getItem(key) || '');
-          worksheetIds.push({
-            id: key.replace('worksheet_', ''),
-            date: data.date,
-            dateLabel: data.dateLabel || data.date,
-            jobCount: data.jobs?.length || 0,
-            createdAt: data.createdAt || data.date,
-          });
-        } catch (e) {
-          console.error('Failed to parse worksheet:', key);
-        }
-      }
-    }
-    worksheetIds.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    setWorksheets(worksheetIds);
-  };
+  const worksheets = useMemo<SavedWorksheet[]>(() => savedWorksheets.map(data => ({
+    id: data.id,
+    date: data.date,
+    dateLabel: data.dateLabel,
+    jobCount: data.jobs.length,
+    createdAt: data.createdAt,
+  })), [savedWorksheets]);
 
   const confirmDelete = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setDeleteModal({ isOpen: true, id });
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (deleteModal.id) {
-      localStorage.removeItem(`worksheet_${deleteModal.id}`);
-      // Also try to remove associated messages
-      localStorage.removeItem(`messages_${deleteModal.id}`);
-      loadWorksheets();
+      try {
+        // Messages share the worksheet's ID, so remove them too, along with the jobs' voice notes
+        const jobIds = savedWorksheets.find(w => w.id === deleteModal.id)?.jobs.map(job => job.id) ?? [];
+        await Promise.all([
+          worksheetRepository.delete(deleteModal.id),
+          messagesRepository.delete(deleteModal.id),
+          voiceNoteRepository.deleteForJobs(jobIds),
+        ]);
+      } catch (e) {
+        console.error('Failed to delete worksheet:', e);
+      }
       setDeleteModal({ isOpen: false, id: null });
     }
   };
@@ -1,7 +1,16 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { JobCard } from './JobCard';
+import { DayProgress } from './DayProgress';
+import { DayMap } from './DayMap';
+import { NavigationExport } from './NavigationExport';
+import { RunningLatePanel } from './RunningLatePanel';
+import { VoiceCommandBar } from './VoiceCommandBar';
 import { ChevronLeftIcon } from './Icons';
-import type { WorksheetData, JobData } from '../types';
+import { worksheetRepository } from '../services/storage';
+import { computeDayProgress, getStatusLabel, setJobStatus } from '../services/jobStatus';
+import { confirmEditedFields } from '../services/provenance';
+import { parseVoiceCommand } from '../services/voiceCommands';
+import type { WorksheetData, JobData, JobStatus, TimeSlot } from '../types';
 
 interface WorksheetViewProps {
   worksheetId: string;
@@ -10,42 +19,143 @@ interface WorksheetViewProps {
 
 const AGENT_API_URL = localStorage.getItem('agentApiUrl') || 'http://localhost:8000';
 
+const persistWorksheet = (worksheet: WorksheetData) => {
+  worksheetRepository.save(worksheet).catch(e => console.error('Failed to save worksheet:', e));
+};
+
+const scrollToJob = (jobId: string) =>
+  document.getElementById(`job-${jobId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+const speak = (text: string) => {
+  if (!('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+};
+
+const appendNote = (existing: string, note: string) => (existing.trim() ? `${existing.trimEnd()}\n${note}` : note);
+
 export const WorksheetView: React.FC<WorksheetViewProps> = ({ worksheetId, onBack }) => {
   const [worksheet, setWorksheet] = useState<WorksheetData | null>(null);
-  const [comments, setComments] = useState<{ [key: number]: string }>({});
+  // Ticks every minute so time on site and ahead/behind stay current
+  const [now, setNow] = useState(() => new Date());
+  // Job that voice commands without a job number apply to; defaults to the current job
+  const [voiceJobId, setVoiceJobId] = useState<string | null>(null);
+  // The worksheet as last loaded or saved, so only real changes are written back
+  const savedWorksheet = useRef<WorksheetData | null>(null);
 
   useEffect(() => {
-    const saved = localStorage.getItem(`worksheet_${worksheetId}`);
-    if (saved) {
-      const data = JSON.parse(saved);
-      setWorksheet(data);
-      setComments(data.comments || {});
-    }
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    worksheetRepository.get(worksheetId)
+      .then(data => {
+        if (mounted && data) {
+          savedWorksheet.current = data;
+          setWorksheet(data);
+        }
+      })
+      .catch(e => console.error('Failed to load worksheet:', e));
+    return () => {
+      mounted = false;
+    };
   }, [worksheetId]);
 
-  const handleCommentChange = useCallback((index: number, comment: string) => {
-    setComments(prev => {
-      const updated = { ...prev, [index]: comment };
-      if (worksheet) {
-        const updatedWorksheet = { ...worksheet, comments: updated };
-        localStorage.setItem(`worksheet_${worksheetId}`, JSON.stringify(updatedWorksheet));
-      }
-      return updated;
+  // Saved once per change. The updaters below stay pure, since StrictMode runs them twice.
+  useEffect(() => {
+    if (!worksheet || worksheet === savedWorksheet.current) return;
+    savedWorksheet.current = worksheet;
+    persistWorksheet(worksheet);
+  }, [worksheet]);
+
+  // Updates go through the state setter so these callbacks stay stable and always
+  // build on the latest worksheet, rather than one captured in a stale closure.
+  const handleCommentChange = useCallback((jobId: string, comment: string) => {
+    setWorksheet(prev => {
+      if (!prev || (prev.comments[jobId] || '') === comment) return prev;
+      return { ...prev, comments: { ...prev.comments, [jobId]: comment } };
+    });
+  }, []);
+
+  const handleUpdateJob = useCallback((jobId: string, updatedJob: JobData) => {
+    setWorksheet(prev => prev && {
+      ...prev,
+      jobs: prev.jobs.map(job => job.id === jobId ? { ...updatedJob, id: jobId } : job),
+    });
+  }, []);
+
+  const handleStatusChange = useCallback((jobId: string, status: JobStatus) => {
+    setWorksheet(prev => prev && {
+      ...prev,
+      jobs: prev.jobs.map(job => job.id === jobId ? setJobStatus(job, status) : job),
     });
-  }, [worksheet, worksheetId]);
-
-  const handleUpdateJob = useCallback((index: number, updatedJob: JobData) => {
-    if (!worksheet) return;
-    
-    const newJobs = [...worksheet.jobs];
-    newJobs[index] = updatedJob;
-    
-    const updatedWorksheet = { ...worksheet, jobs: newJobs };
-    setWorksheet(updatedWorksheet);
-    localStorage.setItem(`worksheet_${worksheetId}`, JSON.stringify(updatedWorksheet));
-  }, [worksheet, worksheetId]);
-
-  if (!worksheet) {
+    setNow(new Date());
+  }, []);
+
+  const handleTimeSlotsChange = useCallback((timeSlots: { [jobId: string]: TimeSlot }) => {
+    setWorksheet(prev => prev && { ...prev, timeSlots });
+  }, []);
+
+  const progress = useMemo(
+    () => worksheet ? computeDayProgress(worksheet.jobs, worksheet.timeSlots, now) : null,
+    [worksheet, now]
+  );
+
+  const activeVoiceJob = worksheet
+    ? worksheet.jobs.find(job => job.id === voiceJobId)
+      ?? worksheet.jobs.find(job => job.id === progress?.currentJobId)
+      ?? worksheet.jobs[0]
+    : undefined;
+
+  const handleVoiceTranscript = (transcript: string): string => {
+    if (!worksheet || !activeVoiceJob) return 'No jobs on this worksheet';
+    const command = parseVoiceCommand(transcript);
+    const activeIndex = worksheet.jobs.indexOf(activeVoiceJob);
+
+    if (!command) {
+      handleCommentChange(activeVoiceJob.id, appendNote(worksheet.comments[activeVoiceJob.id] || '', transcript));
+      return `Added to job ${activeIndex + 1} notes`;
+    }
+
+    if (command.type === 'select_job') {
+      const index = command.target === 'next' ? activeIndex + 1
+        : command.target === 'previous' ? activeIndex - 1
+        : command.target - 1;
+      const job = worksheet.jobs[index];
+      if (!job) return command.target === 'next' ? 'That was the last job' : `There's no job ${index + 1}`;
+      setVoiceJobId(job.id);
+      scrollToJob(job.id);
+      return `Job ${index + 1} selected`;
+    }
+
+    const index = command.jobNumber === null ? activeIndex : command.jobNumber - 1;
+    const job = worksheet.jobs[index];
+    if (!job) return `There's no job ${index + 1}`;
+
+    switch (command.type) {
+      case 'set_status':
+        handleStatusChange(job.id, command.status);
+        return `Job ${index + 1} marked ${getStatusLabel(command.status)}`;
+      case 'add_note':
+        handleCommentChange(job.id, appendNote(worksheet.comments[job.id] || '', command.text));
+        return `Note added to job ${index + 1}`;
+      case 'read_fault':
+        speak(`Job ${index + 1}. ${job.fault || 'No fault recorded'}.${job.errorCode ? ` Error code ${job.errorCode.split('').join(' ')}.` : ''}`);
+        return `Reading job ${index + 1} fault`;
+      case 'set_error_code':
+        handleUpdateJob(job.id, confirmEditedFields(job, { ...job, errorCode: command.code }));
+        return `Job ${index + 1} error code set to ${command.code}`;
+    }
+  };
+
+  const mapStops = useMemo(
+    () => worksheet ? worksheet.jobs.map((job, index) => ({ id: job.id, label: String(index + 1), address: job.address })) : [],
+    [worksheet]
+  );
+
+  if (!worksheet || !progress) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-slate-400">Loading worksheet...</div>
@@ -78,20 +188,43 @@ export const WorksheetView: React.FC<WorksheetViewProps> = ({ worksheetId, onBac
         </div>
       </header>
 
+      {activeVoiceJob && (
+        <VoiceCommandBar
+          activeJobLabel={`Job ${worksheet.jobs.indexOf(activeVoiceJob) + 1}${activeVoiceJob.customerName ? `, ${activeVoiceJob.customerName}` : ''}`}
+          onTranscript={handleVoiceTranscript}
+        />
+      )}
+
+      <DayProgress progress={progress} />
+      <RunningLatePanel worksheet={worksheet} onApply={handleTimeSlotsChange} />
+
+      <DayMap
+        stops={mapStops}
+        startAddress={worksheet.startAddress || undefined}
+        onSelectStop={scrollToJob}
+      />
+      <NavigationExport
+        stops={mapStops}
+        startAddress={worksheet.startAddress || undefined}
+        routeName={worksheet.dateLabel}
+      />
+
       <div className="space-y-4">
         {worksheet.jobs.map((job, index) => (
-          <JobCard
-            key={index}
-            index={index}
-            {...job}
-            time={worksheet.timeSlots[index] 
-             ? `${worksheet.timeSlots[index].start} - ${worksheet.timeSlots[index].end}`
-              : job.time}
-            onCommentChange={handleCommentChange}
-            onUpdateJob={handleUpdateJob}
-            savedComment={comments[index] || ''}
-            agentApiUrl={AGENT_API_URL}
-          />
+          <div key={job.id} id={`job-${job.id}`} className="scroll-mt-6">
+            <JobCard
+              index={index}
+              {...job}
+              arrivalWindow={worksheet.timeSlots[job.id]
+                ? `${worksheet.timeSlots[job.id].start} - ${worksheet.timeSlots[job.id].end}`
+                : undefined}
+              onCommentChange={handleCommentChange}
+              onUpdateJob={handleUpdateJob}
+              onStatusChange={handleStatusChange}
+              savedComment={worksheet.comments[job.id] || ''}
+              agentApiUrl={AGENT_API_URL}
+            />
+          </div>
         ))}
       </div>
     </div>
@@ -1,13 +1,24 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { CreateWebWorkerMLCEngine, MLCEngineInterface, InitProgressReport } from "@mlc-ai/web-llm";
+import { CreateWebWorkerMLCEngine, MLCEngineInterface, InitProgressReport, CompletionUsage } from "@mlc-ai/web-llm";
 import LLMWorker from '../workers/llm.worker.ts?worker';
+import { loadAssistantSettings, type LlmModelId } from '../services/settings';
+import { fitHistory } from '../services/assistantContext';
+import { getContextTokens } from '../services/llmModels';
+import type { ChatMessage } from '../types';
 
-export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+export interface GenerationStats {
+  tokens: number;
+  tokensPerSecond: number; // Decoding speed, not counting the time to read the prompt
+  stopped: boolean; // Cut short with stopGenerating
 }
 
-export const useLocalLLM = () => {
+/**
+ * On-device chat. `systemPrompt` is sent ahead of the conversation on every request
+ * rather than stored in it, so a change of context applies to the next question. A long
+ * conversation is sent from its latest turns that fit the model's context window; the
+ * whole of it stays in `messages`.
+ */
+export const useLocalLLM = (systemPrompt?: string) => {
   const [engine, setEngine] = useState<MLCEngineInterface | null>(null);
   const [progress, setProgress] = useState<string>('');
   const [loadPercentage, setLoadPercentage] = useState<number>(0);
@@ -15,18 +26,25 @@ export const useLocalLLM = () => {
   const [isReady, setIsReady] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [stats, setStats] = useState<GenerationStats | null>(null); // For the last reply
+  const stopRequested = useRef(false);
+  const generation = useRef(0); // Bumped when the history is replaced, to drop a reply still streaming
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadedModelId, setLoadedModelId] = useState<LlmModelId | null>(null); // Loaded, or being loaded
 
-  const initEngine = useCallback(async () => {
+  const initEngine = useCallback(async (modelId: LlmModelId) => {
     if (engine || isLoading || isReady) return;
 
     setIsLoading(true);
+    setLoadError(null);
+    setLoadedModelId(modelId);
     try {
       // Instantiate worker using Vite import syntax
       const worker = new LLMWorker();
 
       const engineInstance = await CreateWebWorkerMLCEngine(
         worker,
-        'Llama-3-8B-Instruct-q4f32_1',
+        modelId,
         {
           initProgressCallback: (report: InitProgressReport) => {
             setProgress(report.text);
@@ -44,52 +62,111 @@ export const useLocalLLM = () => {
     } catch (err) {
       console.error("Failed to load LLM:", err);
       setProgress("Failed to load model.");
+      setLoadError(err instanceof Error ? err.message : "Failed to load model.");
     } finally {
       setIsLoading(false);
     }
   }, [engine, isLoading, isReady]);
 
   const sendMessage = async (text: string) => {
-    if (!engine || !isReady) return;
+    if (!engine || !isReady || isGenerating) return;
 
     const userMsg: ChatMessage = { role: 'user', content: text };
     const newMessages = [...messages, userMsg];
-    setMessages(newMessages);
+    // The reply is filled in as tokens arrive
+    setMessages([...newMessages, { role: 'assistant', content: '' }]);
     setIsGenerating(true);
+    setStats(null);
+    stopRequested.current = false;
+    const run = ++generation.current;
+    const isCurrent = () => generation.current === run;
+
+    const setReply = (content: string) => {
+      if (isCurrent()) setMessages(prev => [...prev.slice(0, -1), { role: 'assistant', content }]);
+    };
+
+    // Read on each send so changes made in Settings apply to the next question
+    const { temperature, maxTokens } = loadAssistantSettings();
+    let reply = '';
+    let chunkCount = 0;
+    let firstTokenAt: number | null = null;
+    let usage: CompletionUsage | undefined;
 
     try {
-      const response = await engine.chat.completions.create({
-        messages: newMessages,
-        temperature: 0.7,
-        max_tokens: 1024,
+      const history = loadedModelId
+        ? fitHistory(newMessages, systemPrompt ?? '', getContextTokens(loadedModelId), maxTokens)
+        : newMessages;
+      const chunks = await engine.chat.completions.create({
+        messages: systemPrompt ? [{ role: 'system', content: systemPrompt }, ...history] : history,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
       });
 
-      const reply = response.choices[0].message.content || "";
-      setMessages(prev => [...prev, { role: 'assistant', content: reply }]);
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta.content;
+        if (delta) {
+          firstTokenAt ??= performance.now();
+          chunkCount++;
+          reply += delta;
+          setReply(reply);
+        }
+        if (chunk.usage) usage = chunk.usage;
+      }
+
+      if (!reply && isCurrent()) setMessages(prev => prev.slice(0, -1));
     } catch (err) {
       console.error("Generation error:", err);
-      setMessages(prev => [...prev, { role: 'assistant', content: "Error generating response." }]);
+      setReply(reply || "Error generating response.");
     } finally {
+      if (reply && isCurrent()) {
+        // The engine's own figures when it reports them; otherwise one token per streamed chunk
+        const seconds = firstTokenAt === null ? 0 : (performance.now() - firstTokenAt) / 1000;
+        setStats({
+          tokens: usage?.completion_tokens ?? chunkCount,
+          tokensPerSecond: usage?.extra?.decode_tokens_per_s ?? (seconds > 0 ? chunkCount / seconds : 0),
+          stopped: stopRequested.current,
+        });
+      }
       setIsGenerating(false);
     }
   };
 
-  const resetChat = () => {
-    setMessages([]);
+  /** Ends the reply being generated; what has streamed so far is kept. */
+  const stopGenerating = () => {
+    if (!engine || !isGenerating) return;
+    stopRequested.current = true;
+    engine.interruptGenerate();
+  };
+
+  /** Swaps in another conversation's history, which is sent to the engine with the next question. */
+  const replaceMessages = (history: ChatMessage[]) => {
+    generation.current++;
+    if (isGenerating) stopGenerating();
+    setMessages(history);
+    setStats(null);
     if (engine) {
       engine.resetChat();
     }
   };
 
+  const resetChat = () => replaceMessages([]);
+
   return {
     initEngine,
+    loadedModelId,
     progress,
     loadPercentage,
     isLoading,
     isReady,
+    loadError,
     messages,
     isGenerating,
+    stats,
     sendMessage,
+    stopGenerating,
+    replaceMessages,
     resetChat
   };
 };
\ No newline at end of file
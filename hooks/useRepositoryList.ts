@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import type { Repository, StoredRecord } from '../services/storage';
+
+/**
+ * Loads every record in a repository and reloads whenever it changes, so list
+ * views stay in sync with saves and deletes made elsewhere in the app.
+ */
+export const useRepositoryList = <T extends StoredRecord>(repository: Repository<T>) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        const records = await repository.list();
+        if (mounted) setItems(records);
+      } catch (e) {
+        console.error('Failed to load saved records:', e);
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    load();
+    const unsubscribe = repository.subscribe(load);
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [repository]);
+
+  return { items, isLoading };
+};
@@ -1,159 +1,219 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import WhisperWorker from '../workers/whisper.worker.ts?worker';
+import captureWorkletUrl from '../workers/audioCapture.worklet.ts?worker&url';
+import { createVoiceSegmenter } from '../services/voiceSegmenter';
+import { pickRecordingType, type VoiceRecording } from '../services/voiceNotes';
+import {
+  getTranscriptionState,
+  loadTranscriptionModel,
+  subscribeTranscriptionState,
+  transcribe,
+} from '../services/transcriptionService';
 
 interface UseSpeechRecognitionProps {
-  onResult: (transcript: string) => void;
-  continuous?: boolean; // Kept for API compatibility, though local whisper usually works in chunks
+  onResult: (transcript: string) => void; // Called once per finished utterance
+  onRecording?: (recording: VoiceRecording) => void; // When given, each session is also recorded
+  continuous?: boolean; // Kept for API compatibility; dictation always streams in utterances
   interimResults?: boolean;
 }
 
-export const useSpeechRecognition = ({ onResult }: UseSpeechRecognitionProps) => {
+type VoiceSegmenter = ReturnType<typeof createVoiceSegmenter>;
+
+type RecordedAudio = Omit<VoiceRecording, 'transcript'>;
+
+// One mic session. Its recording is handed over with the live transcript once every
+// utterance has been through the model, so the note needn't be transcribed again.
+interface DictationSession {
+  texts: string[];
+  outstanding: number; // Utterances still waiting for a transcript
+  failed: boolean; // Some utterance couldn't be transcribed, so the recording needs it instead
+  recording: RecordedAudio | null; // Set once the recorder has stopped
+}
+
+// Low bitrate is plenty for speech and keeps stored notes small
+const RECORDING_BITS_PER_SECOND = 24000;
+
+/** Records the stream compressed, handing over the whole recording once stopped. */
+const startRecording = (stream: MediaStream, onDone: (recording: RecordedAudio) => void): MediaRecorder => {
+  const mimeType = pickRecordingType();
+  const mediaRecorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: RECORDING_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+
+  mediaRecorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  mediaRecorder.onstop = () => {
+    if (chunks.length === 0) return;
+    const type = mediaRecorder.mimeType || mimeType || chunks[0].type;
+    onDone({
+      audio: new Blob(chunks, { type }),
+      mimeType: type,
+      durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+    });
+  };
+  mediaRecorder.start(1000);
+  return mediaRecorder;
+};
+
+export const useSpeechRecognition = ({ onResult, onRecording }: UseSpeechRecognitionProps) => {
   const [isListening, setIsListening] = useState(false);
-  const [isModelLoading, setIsModelLoading] = useState(true);
+  const [model, setModel] = useState(getTranscriptionState);
   const [error, setError] = useState<string | null>(null);
-  const [isSupported, setIsSupported] = useState(true); // Assume true for modern browsers with WebGPU/WASM
+  const [isSupported] = useState(() => typeof window !== 'undefined' && 'AudioWorkletNode' in window);
+  // Provisional text for the utterance in progress; replaced by onResult once it ends
+  const [partialTranscript, setPartialTranscript] = useState('');
 
-  const worker = useRef<Worker | null>(null);
   const audioContext = useRef<AudioContext | null>(null);
   const mediaStream = useRef<MediaStream | null>(null);
-  const scriptProcessor = useRef<ScriptProcessorNode | null>(null);
-  
-  // Buffer to store audio data before sending to worker
-  const audioBufferRef = useRef<Float32Array>(new Float32Array(0));
-  
-  // Use ref for callback to avoid re-initializing worker on every render
+  const captureNode = useRef<AudioWorkletNode | null>(null);
+  const segmenter = useRef<VoiceSegmenter | null>(null);
+  const recorder = useRef<MediaRecorder | null>(null);
+
+  // Each card keeps one request in the shared queue at a time. Finished utterances are
+  // queued here and always transcribed; only the newest partial is kept, and it's
+  // skipped once its utterance ends.
+  const pendingSegments = useRef<{ audio: Float32Array; session: DictationSession }[]>([]);
+  const pendingPartial = useRef<Float32Array | null>(null);
+  const isBusy = useRef(false);
+
+  // Use ref for callback so results arriving after a re-render reach the latest one
   const onResultRef = useRef(onResult);
+  const onRecordingRef = useRef(onRecording);
   useEffect(() => {
     onResultRef.current = onResult;
-  }, [onResult]);
+    onRecordingRef.current = onRecording;
+  }, [onResult, onRecording]);
 
-  useEffect(() => {
-    // Initialize Worker using Vite import
-    worker.current = new WhisperWorker();
-
-    worker.current.onmessage = (event) => {
-      const { type, text, error: workerError } = event.data;
-      if (type === 'ready') {
-        setIsModelLoading(false);
-      } else if (type === 'result') {
-        if (onResultRef.current) {
-            onResultRef.current(text);
+  useEffect(() => subscribeTranscriptionState(() => setModel(getTranscriptionState())), []);
+
+  const finishSession = useCallback((session: DictationSession) => {
+    if (!session.recording || session.outstanding > 0) return;
+    const recording = session.recording;
+    session.recording = null;
+    onRecordingRef.current?.({ ...recording, transcript: session.failed ? null : session.texts.join(' ') });
+  }, []);
+
+  const dispatchNext = useCallback(() => {
+    if (isBusy.current) return;
+    const segment = pendingSegments.current.shift();
+    const audio = segment?.audio ?? pendingPartial.current;
+    if (!audio) return;
+    if (!segment) pendingPartial.current = null;
+    isBusy.current = true;
+
+    transcribe(audio, !segment)
+      .then(text => {
+        const transcript = text.trim();
+        if (!segment) {
+          setPartialTranscript(transcript);
+        } else {
+          setPartialTranscript('');
+          if (transcript) {
+            segment.session.texts.push(transcript);
+            onResultRef.current?.(transcript);
+          }
         }
-      } else if (type === 'error') {
-        setError(workerError);
-        setIsListening(false);
-      }
-    };
-
-    // Trigger model load immediately
-    worker.current.postMessage({ type: 'load' });
-
-    return () => {
-      worker.current?.terminate();
-    };
-  }, []); // Empty dependency array - worker only inits once
-
-  /**
-   * Downsamples audio data from source sample rate to 16000Hz
-   */
-  const downsampleBuffer = (buffer: Float32Array, sampleRate: number, outSampleRate: number) => {
-    if (outSampleRate === sampleRate) {
-      return buffer;
-    }
-    if (outSampleRate > sampleRate) {
-      throw new Error('Downsampling rate show be smaller than original sample rate');
-    }
-    const sampleRateRatio = sampleRate / outSampleRate;
-    const newLength = Math.round(buffer.length / sampleRateRatio);
-    const result = new Float32Array(newLength);
-    let offsetResult = 0;
-    let offsetBuffer = 0;
-    while (offsetResult < result.length) {
-      const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-      // Use average value of skipped samples
-      let accum = 0, count = 0;
-      for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-        accum += buffer[i];
-        count++;
-      }
-      result[offsetResult] = accum / count;
-      offsetResult++;
-      offsetBuffer = nextOffsetBuffer;
+      })
+      .catch(err => {
+        // A failed partial is harmless; the final transcript will be requested anyway
+        if (!segment) return;
+        segment.session.failed = true;
+        setError(err.message || 'Transcription failed');
+      })
+      .finally(() => {
+        isBusy.current = false;
+        if (segment) {
+          segment.session.outstanding--;
+          finishSession(segment.session);
+        }
+        dispatchNext();
+      });
+  }, [finishSession]);
+
+  const stopCapture = useCallback(() => {
+    // Stopped before the tracks so the recording's final chunk is flushed
+    if (recorder.current?.state === 'recording') recorder.current.stop();
+    recorder.current = null;
+    mediaStream.current?.getTracks().forEach(track => track.stop());
+    mediaStream.current = null;
+    if (captureNode.current) {
+      captureNode.current.port.onmessage = null;
+      captureNode.current.disconnect();
+      captureNode.current = null;
     }
-    return result;
-  };
+    audioContext.current?.close();
+    audioContext.current = null;
+    // Whatever was being said when the mic went off still counts
+    segmenter.current?.flush();
+    segmenter.current = null;
+    setIsListening(false);
+  }, []);
 
-  const processAudio = useCallback((inputData: Float32Array) => {
-    // Append new data to buffer
-    const newBuffer = new Float32Array(audioBufferRef.current.length + inputData.length);
-    newBuffer.set(audioBufferRef.current);
-    newBuffer.set(inputData, audioBufferRef.current.length);
-    audioBufferRef.current = newBuffer;
+  // Release the microphone if the component goes away mid-dictation
+  useEffect(() => () => {
+    mediaStream.current?.getTracks().forEach(track => track.stop());
+    audioContext.current?.close();
   }, []);
 
   const startListening = useCallback(async () => {
-    if (isListening || isModelLoading) return;
+    if (isListening) return;
     setError(null);
-    audioBufferRef.current = new Float32Array(0); // Reset buffer
+    setPartialTranscript('');
+    // Utterances still queued from the last session are kept; they finish that session's note
+    pendingPartial.current = null;
+    const session: DictationSession = { texts: [], outstanding: 0, failed: false, recording: null };
+
+    // The first tap anywhere downloads the model; speech is queued until it's ready
+    loadTranscriptionModel().catch(err => setError(err.message || 'Could not load the transcription model'));
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       mediaStream.current = stream;
 
-      // Create Audio Context
-      // We keep standard sample rate here and downsample manually to ensure compatibility
-      audioContext.current = new window.AudioContext();
-      const source = audioContext.current.createMediaStreamSource(stream);
-
-      // Use ScriptProcessor for broad compatibility (AudioWorklet is better but requires separate file logic in pure React setups without dedicated public folder setup sometimes)
-      // Buffer size 4096 gives reasonable latency/performance balance
-      const processor = audioContext.current.createScriptProcessor(4096, 1, 1);
-      scriptProcessor.current = processor;
-
-      processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        // We clone the data because inputBuffer is reused
-        const rawData = new Float32Array(inputData);
-        
-        // Downsample immediately to save memory, or store raw? 
-        // Storing raw and downsampling at the end is safer for quality, 
-        // but downsampling chunks saves memory. Let's downsample chunks.
-        const downsampled = downsampleBuffer(rawData, audioContext.current!.sampleRate, 16000);
-        processAudio(downsampled);
-      };
-
-      source.connect(processor);
-      processor.connect(audioContext.current.destination);
+      // The context runs at the device's own rate; the worklet downsamples to 16kHz
+      const context = new window.AudioContext();
+      audioContext.current = context;
+      await context.audioWorklet.addModule(captureWorkletUrl);
+
+      segmenter.current = createVoiceSegmenter({
+        onPartial: (audio) => {
+          pendingPartial.current = audio;
+          dispatchNext();
+        },
+        onSegment: (audio) => {
+          pendingPartial.current = null;
+          session.outstanding++;
+          pendingSegments.current.push({ audio, session });
+          dispatchNext();
+        },
+      });
+
+      // With no outputs the node is still pulled by the graph without reaching the speakers
+      const node = new AudioWorkletNode(context, 'audio-capture', { numberOfOutputs: 0 });
+      captureNode.current = node;
+      node.port.onmessage = (event: MessageEvent<Float32Array>) => segmenter.current?.push(event.data);
+      context.createMediaStreamSource(stream).connect(node);
+
+      if (onRecordingRef.current && typeof MediaRecorder !== 'undefined') {
+        recorder.current = startRecording(stream, recording => {
+          session.recording = recording;
+          finishSession(session);
+        });
+      }
 
       setIsListening(true);
     } catch (err: any) {
       console.error(err);
       setError(err.message || 'Microphone access denied');
+      stopCapture();
     }
-  }, [isListening, isModelLoading, processAudio]);
+  }, [isListening, dispatchNext, finishSession, stopCapture]);
 
   const stopListening = useCallback(() => {
     if (!isListening) return;
-
-    // Stop Stream
-    mediaStream.current?.getTracks().forEach(track => track.stop());
-    
-    // Disconnect Audio Nodes
-    if (scriptProcessor.current && audioContext.current) {
-        scriptProcessor.current.disconnect();
-        audioContext.current.close();
-    }
-
-    setIsListening(false);
-
-    // Send buffered audio to worker
-    if (worker.current && audioBufferRef.current.length > 0) {
-      worker.current.postMessage({
-        type: 'transcribe',
-        audio: audioBufferRef.current,
-      });
-    }
-  }, [isListening]);
+    // Up to ~100ms still batched in the worklet is dropped; it's almost always silence
+    stopCapture();
+  }, [isListening, stopCapture]);
 
   const toggleListening = useCallback(() => {
     if (isListening) {
@@ -168,6 +228,8 @@ export const useSpeechRecognition = ({ onResult }: UseSpeechRecognitionProps) =>
     toggleListening,
     error,
     isSupported,
-    isModelLoading
+    isModelLoading: model.status === 'loading',
+    modelProgress: model.progress,
+    partialTranscript,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { buildAssistantContext, contextBudget, describeJob, estimateTokens, fitHistory } from './assistantContext';
+import type { ChatMessage, JobData, WorksheetData } from '../types';
+
+const job = (id: string, overrides: Partial<JobData> = {}): JobData => ({
+  id,
+  time: 'AM',
+  customerName: 'Mrs Smith',
+  customerPhone: '07700 900123',
+  address: '1 High St',
+  productCode: '',
+  productType: 'Washing machine',
+  productBrand: 'Bosch',
+  fault: 'Leaking',
+  errorCode: '',
+  productionYear: '',
+  serialNumber: '',
+  status: 'pending',
+  statusHistory: [],
+  ...overrides,
+});
+
+const worksheet = (jobs: JobData[], overrides: Partial<WorksheetData> = {}): WorksheetData => ({
+  id: 'w1',
+  schemaVersion: 6,
+  date: '2024-05-01T08:00:00.000Z',
+  createdAt: '2024-05-01T08:00:00.000Z',
+  dateLabel: 'Wednesday 1 May',
+  timeSlots: {},
+  jobs,
+  comments: {},
+  startAddress: '',
+  ...overrides,
+});
+
+describe('describeJob', () => {
+  it('lists the filled-in fields under the job number', () => {
+    const sheet = worksheet([job('a', { errorCode: 'E18' })], {
+      timeSlots: { a: { start: '08:00', end: '09:00' } },
+      comments: { a: 'Pump blocked with a coin' },
+    });
+
+    expect(describeJob(sheet, sheet.jobs[0], 1)).toBe([
+      'Job 1',
+      '- Status: Pending',
+      '- Booked time: AM',
+      '- Arrival window: 08:00 - 09:00',
+      '- Customer: Mrs Smith',
+      '- Address: 1 High St',
+      '- Appliance: Bosch Washing machine',
+      '- Reported fault: Leaking',
+      '- Error code: E18',
+      '- Engineer notes: Pump blocked with a coin',
+    ].join('\n'));
+  });
+
+  it('leaves out the customer phone number and empty fields', () => {
+    const sheet = worksheet([job('a', { productBrand: '', fault: '   ' })]);
+    const text = describeJob(sheet, sheet.jobs[0], 3);
+
+    expect(text.startsWith('Job 3\n')).toBe(true);
+    expect(text).toContain('- Appliance: Washing machine');
+    expect(text).not.toContain('07700');
+    expect(text).not.toContain('Reported fault');
+    expect(text).not.toContain('Arrival window');
+  });
+
+  it('cuts very long notes onto one line', () => {
+    const sheet = worksheet([job('a')], { comments: { a: `First line\n${'x'.repeat(2000)}` } });
+    const notes = describeJob(sheet, sheet.jobs[0], 1).split('\n').pop()!;
+
+    expect(notes.startsWith('- Engineer notes: First line x')).toBe(true);
+    expect(notes.endsWith('…')).toBe(true);
+    expect(notes.length).toBeLessThan(700);
+  });
+});
+
+describe('buildAssistantContext', () => {
+  it('is just the instructions without a worksheet', () => {
+    expect(buildAssistantContext({ worksheet: null, jobId: null }, '  Be brief.  ')).toBe('Be brief.');
+    expect(buildAssistantContext({ worksheet: null, jobId: null }, '')).toBe('');
+  });
+
+  it('describes every job, numbered as on the worksheet', () => {
+    const sheet = worksheet([job('a'), job('b', { customerName: 'Mr Jones' })]);
+    const context = buildAssistantContext({ worksheet: sheet, jobId: null }, 'Be brief.');
+
+    expect(context.startsWith('Be brief.\n\n')).toBe(true);
+    expect(context).toContain('Worksheet for Wednesday 1 May with 2 jobs:');
+    expect(context).toContain('Job 1\n- Status: Pending');
+    expect(context).toContain('Job 2\n');
+    expect(context).toContain('- Customer: Mr Jones');
+    expect(context).not.toContain('left out');
+  });
+
+  it('keeps the worksheet number of a single job in scope', () => {
+    const sheet = worksheet([job('a'), job('b', { customerName: 'Mr Jones' }), job('c')]);
+    const context = buildAssistantContext({ worksheet: sheet, jobId: 'b' }, '');
+
+    expect(context).toContain('limited to Job 2 of 3:');
+    expect(context).toContain('Job 2\n- Status');
+    expect(context).toContain('Mr Jones');
+    expect(context).not.toContain('Job 1\n');
+    expect(context).not.toContain('Job 3\n');
+  });
+
+  it('falls back to the instructions for a job no longer on the worksheet', () => {
+    const sheet = worksheet([job('a')]);
+    expect(buildAssistantContext({ worksheet: sheet, jobId: 'gone' }, 'Be brief.')).toBe('Be brief.');
+  });
+
+  it('leaves out the jobs that would overflow the budget and says which', () => {
+    const jobs = Array.from({ length: 30 }, (_, i) => job(`j${i}`, { customerName: `Customer ${i + 1}` }));
+    const sheet = worksheet(jobs, { comments: Object.fromEntries(jobs.map(j => [j.id, 'n'.repeat(500)])) });
+    const budget = contextBudget(4096);
+    const context = buildAssistantContext({ worksheet: sheet, jobId: null }, 'Be brief.', budget);
+
+    expect(context.length).toBeLessThanOrEqual(budget);
+    expect(context).toContain('Worksheet for Wednesday 1 May with 30 jobs:');
+    expect(context).toContain('Customer 1\n');
+    expect(context).not.toContain('Customer 30');
+    expect(context).toMatch(/Jobs \d+(, \d+)* and 30 were left out/);
+  });
+
+  it('cuts a single job in scope rather than dropping it', () => {
+    const sheet = worksheet([job('a')], { comments: { a: 'n'.repeat(600) } });
+    const context = buildAssistantContext({ worksheet: sheet, jobId: 'a' }, '', 700);
+
+    expect(context.length).toBeLessThanOrEqual(700);
+    expect(context).toContain('Job 1\n- Status: Pending');
+    expect(context.endsWith('…')).toBe(true);
+  });
+});
+
+describe('fitHistory', () => {
+  // Alternating questions and replies of about 100 tokens each, oldest first
+  const conversation = (turns: number): ChatMessage[] =>
+    Array.from({ length: turns }, (_, i) => ({ role: i % 2 === 0 ? 'user' : 'assistant', content: `${i} ${'x'.repeat(300)}` }));
+
+  it('sends a short conversation whole', () => {
+    const messages = conversation(5);
+    expect(fitHistory(messages, 'Be brief.', 4096, 1024)).toEqual(messages);
+  });
+
+  it('keeps the latest turns that fit beside the system prompt and the reply', () => {
+    const messages = conversation(41);
+    const systemPrompt = 's'.repeat(contextBudget(4096));
+    const fitted = fitHistory(messages, systemPrompt, 4096, 1024);
+
+    expect(fitted.length).toBeGreaterThan(1);
+    expect(fitted.length).toBeLessThan(messages.length);
+    expect(fitted[fitted.length - 1]).toBe(messages[40]);
+    expect(fitted[0].role).toBe('user');
+    const tokens = [systemPrompt, ...fitted.map(m => m.content)].reduce((sum, text) => sum + estimateTokens(text) + 8, 0);
+    expect(tokens + 1024).toBeLessThanOrEqual(4096);
+  });
+
+  it('still sends the newest message when it alone is too long', () => {
+    const question: ChatMessage = { role: 'user', content: 'q'.repeat(20000) };
+    expect(fitHistory([...conversation(4), question], 'Be brief.', 4096, 1024)).toEqual([question]);
+  });
+
+  it('never opens on a reply', () => {
+    const messages = conversation(40);
+    messages.push({ role: 'user', content: 'And the next job?' });
+    for (const replyTokens of [500, 1000, 1500, 2000, 2500, 3000, 3500]) {
+      expect(fitHistory(messages, '', 4096, replyTokens)[0].role).toBe('user');
+    }
+  });
+});
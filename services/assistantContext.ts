@@ -0,0 +1,143 @@
+import type { ChatMessage, JobData, WorksheetData } from '../types';
+import { getStatusLabel } from './jobStatus';
+
+// The local assistant only knows what it is told, so every chat request starts with a
+// system message describing the worksheet. Jobs are numbered as on the worksheet, which
+// is how the model is asked to cite them.
+//
+// Small models have small context windows, and the conversation and reply need room
+// too, so the system message is held to a share of the window. Long notes are cut and
+// jobs that don't fit are left out, with the model told which. Of the conversation,
+// only the latest turns that fit the rest of the window are sent.
+
+export interface AssistantScope {
+  worksheet: WorksheetData | null;
+  jobId: string | null; // Limit the context to one job, or null for the whole day
+}
+
+const GROUNDING_RULES = [
+  'Use only the worksheet below for facts about these jobs, customers and appliances.',
+  'Refer to jobs as "Job N" using the numbers given, and cite the job number for every fact you use from it.',
+  'If the worksheet does not contain the answer, say so instead of guessing.',
+  'General repair advice is fine, but make clear it is not from the worksheet.',
+].join('\n');
+
+// Rough, and low for English so the estimate errs towards fitting
+const CHARS_PER_TOKEN = 3;
+// The rest of the window is left for the conversation and the reply
+const SYSTEM_SHARE = 0.4;
+// Free text such as engineer notes is cut to this before the budget is applied
+const MAX_FIELD_LENGTH = 600;
+
+// Allowed for the chat template's markers around each message
+const MESSAGE_OVERHEAD_TOKENS = 8;
+
+/** A rough token count, erring high. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/** Characters the system message may use for a model with this context window. */
+export const contextBudget = (contextTokens: number) => Math.floor(contextTokens * SYSTEM_SHARE * CHARS_PER_TOKEN);
+
+const truncate = (text: string, length: number) => (text.length <= length ? text : `${text.slice(0, length - 1).trimEnd()}…`);
+
+const field = (label: string, value: string | undefined) => {
+  const text = value?.trim();
+  return text ? `- ${label}: ${truncate(text.replace(/\s+/g, ' '), MAX_FIELD_LENGTH)}` : null;
+};
+
+/** One job as a block of labelled lines, skipping fields the worksheet left empty. */
+export const describeJob = (worksheet: WorksheetData, job: JobData, jobNumber: number): string => {
+  const slot = worksheet.timeSlots[job.id];
+  const appliance = [job.productBrand, job.productType].filter(Boolean).join(' ');
+  const lines = [
+    `Job ${jobNumber}`,
+    field('Status', getStatusLabel(job.status)),
+    field('Booked time', job.time),
+    field('Arrival window', slot && `${slot.start} - ${slot.end}`),
+    field('Customer', job.customerName),
+    field('Address', job.address),
+    field('Appliance', appliance),
+    field('Product code', job.productCode),
+    field('Serial number', job.serialNumber),
+    field('Production year', job.productionYear),
+    field('Reported fault', job.fault),
+    field('Error code', job.errorCode),
+    field('Engineer notes', worksheet.comments[job.id]),
+  ];
+  return lines.filter((line): line is string => line !== null).join('\n');
+};
+
+/** "Job 4", "Jobs 4 and 7" or "Jobs 4, 7 and 9". */
+const jobList = (numbers: number[]) => {
+  if (numbers.length === 1) return `Job ${numbers[0]}`;
+  return `Jobs ${numbers.slice(0, -1).join(', ')} and ${numbers[numbers.length - 1]}`;
+};
+
+/**
+ * The system prompt for a chat: the user's standing instructions followed by the
+ * worksheet in scope, if there is one, kept within `maxLength` characters.
+ */
+export const buildAssistantContext = (
+  { worksheet, jobId }: AssistantScope,
+  instructions: string,
+  maxLength: number = Infinity,
+): string => {
+  const baseParts = instructions.trim() ? [instructions.trim()] : [];
+  if (!worksheet) return baseParts.join('\n\n');
+
+  const numbered = worksheet.jobs.map((job, i) => ({ job, jobNumber: i + 1 }));
+  const inScope = jobId ? numbered.filter(({ job }) => job.id === jobId) : numbered;
+  if (inScope.length === 0) return baseParts.join('\n\n');
+
+  const heading = jobId
+    ? `Worksheet for ${worksheet.dateLabel}, limited to Job ${inScope[0].jobNumber} of ${worksheet.jobs.length}:`
+    : `Worksheet for ${worksheet.dateLabel} with ${worksheet.jobs.length} jobs:`;
+
+  const parts = [...baseParts, GROUNDING_RULES, heading];
+  const blocks = inScope.map(({ job, jobNumber }) => ({ jobNumber, text: describeJob(worksheet, job, jobNumber) }));
+  // Room kept for the note about left-out jobs, which names at most every job
+  const noteAllowance = blocks.length > 1 ? 120 + blocks.length * 4 : 0;
+  let used = parts.join('\n\n').length;
+
+  const omitted: number[] = [];
+  for (const block of blocks) {
+    const remaining = maxLength - used - noteAllowance - 2;
+    if (omitted.length === 0 && block.text.length <= remaining) {
+      parts.push(block.text);
+      used += block.text.length + 2;
+    } else if (blocks.length === 1) {
+      // A job asked about on its own is cut rather than dropped
+      parts.push(truncate(block.text, Math.max(remaining, 1)));
+    } else {
+      omitted.push(block.jobNumber);
+    }
+  }
+
+  if (omitted.length > 0) {
+    parts.push(`${jobList(omitted)} ${omitted.length === 1 ? 'was' : 'were'} left out to fit the assistant's memory. If asked about them, say the user can ask about one job at a time.`);
+  }
+  return parts.join('\n\n');
+};
+
+/**
+ * The latest messages that fit the context window alongside the system prompt and a
+ * reply of up to `replyTokens`. The newest message is always kept, and the history
+ * starts with a question so the model never opens on a reply.
+ */
+export const fitHistory = (
+  messages: ChatMessage[],
+  systemPrompt: string,
+  contextTokens: number,
+  replyTokens: number,
+): ChatMessage[] => {
+  let available = contextTokens - replyTokens - (systemPrompt ? estimateTokens(systemPrompt) + MESSAGE_OVERHEAD_TOKENS : 0);
+  let start = messages.length;
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content) + MESSAGE_OVERHEAD_TOKENS;
+    if (cost > available && start < messages.length) break;
+    available -= cost;
+    start--;
+  }
+  while (start < messages.length - 1 && messages[start].role !== 'user') start++;
+  return messages.slice(start);
+};
@@ -0,0 +1,21 @@
+// Helpers for the "HH:MM" wall-clock strings used by time slots
+
+export const parseClockTime = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+export const formatClockTime = (totalMinutes: number): string => {
+  const wrapped = ((Math.round(totalMinutes) % 1440) + 1440) % 1440;
+  const hours = Math.floor(wrapped / 60);
+  const minutes = wrapped % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+/** Human duration such as "45m" or "1h 05m". The sign is dropped. */
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(Math.abs(minutes));
+  const h = Math.floor(rounded / 60);
+  const m = rounded % 60;
+  return h > 0 ? `${h}h ${String(m).padStart(2, '0')}m` : `${m}m`;
+};
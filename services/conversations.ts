@@ -0,0 +1,76 @@
+import type { AssistantConversation, ChatMessage, WorksheetData } from '../types';
+import { createConversationId } from './ids';
+
+// Assistant chats are saved after each reply. Resuming one sends its saved messages
+// back to the engine with the next question, so the model picks up where it left off.
+
+const TITLE_LENGTH = 60;
+
+/** A title from the first question asked, cut at a word boundary. */
+export const conversationTitle = (messages: ChatMessage[]): string => {
+  const question = messages.find(m => m.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+  if (!question) return 'New conversation';
+  if (question.length <= TITLE_LENGTH) return question;
+  const cut = question.slice(0, TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 20 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+export const createConversation = (
+  messages: ChatMessage[],
+  worksheetId: string | null,
+  jobId: string | null,
+  now: Date = new Date(),
+): AssistantConversation => ({
+  id: createConversationId(),
+  title: conversationTitle(messages),
+  messages,
+  worksheetId,
+  jobId,
+  date: now.toISOString(),
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+});
+
+/** Most recently used first. */
+export const sortByLastUsed = (conversations: AssistantConversation[]) =>
+  [...conversations].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+/** "Job 3 (Mrs Smith)" for a conversation scoped to a job still on the worksheet. */
+const describeLinkedJob = (worksheet: WorksheetData, jobId: string) => {
+  const index = worksheet.jobs.findIndex(job => job.id === jobId);
+  if (index < 0) return null;
+  const name = worksheet.jobs[index].customerName;
+  return `Job ${index + 1}${name ? ` (${name})` : ''}`;
+};
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** The conversation as a markdown transcript, headed by what it was linked to. */
+export const conversationToMarkdown = (conversation: AssistantConversation, worksheet: WorksheetData | null): string => {
+  const details = [`Started ${formatTimestamp(conversation.createdAt)}`];
+  if (worksheet && worksheet.id === conversation.worksheetId) {
+    details.push(`Worksheet: ${worksheet.dateLabel}`);
+    const job = conversation.jobId && describeLinkedJob(worksheet, conversation.jobId);
+    if (job) details.push(job);
+  }
+
+  const turns = conversation.messages
+    .filter(message => message.role !== 'system')
+    .map(message => `**${message.role === 'user' ? 'You' : 'Assistant'}:**\n\n${message.content.trim()}`);
+
+  return [`# ${conversation.title}`, `_${details.join(' • ')}_`, ...turns].join('\n\n') + '\n';
+};
+
+/** e.g. "assistant-whats-the-fault-on-job-3-2024-05-01.md" */
+export const conversationFileName = (conversation: AssistantConversation) => {
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return `assistant-${slug || 'conversation'}-${conversation.createdAt.slice(0, 10)}.md`;
+};
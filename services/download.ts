@@ -0,0 +1,9 @@
+/** Saves generated text, or an existing blob, as a file through a temporary object URL. */
+export const downloadFile = (fileName: string, content: string | Blob, mimeType: string) => {
+  const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,81 +1,58 @@
-import { GoogleGenAI, SchemaType } from "@google/genai";
-import type { ProcessedData } from '../types';
-
-// IMPORTANT: The correct import for Type is from @google/genai.
-// We use SchemaType.STRING, SchemaType.ARRAY, etc. if importing SchemaType, 
-// OR usually Type.STRING if importing Type.
-// Let's stick to the patterns requested in the prompt guidelines.
-import { Type } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
+import type { FieldProvenance, JobData, JobTextField, ProcessedData } from '../types';
+import { applySerialDecoding } from './serialDecoder';
+import { createJobId } from './ids';
 
 const createMasterPrompt = (): string => {
   return `
 ### ROLE AND OBJECTIVE ###
-You are an expert data processing AI. Your sole objective is to meticulously extract data from a series of provided PNG screenshots of a field service application, process it according to a strict set of rules, and generate a JSON object containing two specific outputs: a formatted data table and a set of customer notification messages. Accuracy, precision, and adherence to the specified format are your highest priorities. You are acting as an assistant to an engineer named Matt.
+You are an expert data processing AI. Your sole objective is to meticulously extract data from a series of provided PNG screenshots of a field service application, process it according to a strict set of rules, and generate a JSON object containing the schedule date and a structured list of jobs. Accuracy, precision, and adherence to the specified format are your highest priorities.
 
 ### CORE LOGIC AND PROCESS ###
 You will execute the following operational sequence without deviation:
 
 Step 1: Initial Scan and State Definition
-Scan the "Schedule" screenshots first to establish the date of the jobs (e.g., "Wednesday, Nov 12") and the ORIGINAL ORDER of all service appointments. Create an internal list of the jobs in this exact original sequence. This sequence is critical for generating the final customer messages.
+Scan the "Schedule" screenshots first to establish the date of the jobs (e.g., "Wednesday, Nov 12") and the ORIGINAL ORDER of all service appointments. Create an internal list of the jobs in this exact original sequence. The jobs must be returned in this sequence.
 
 Step 2: Iterative Data Extraction and Association
 For each job in the original sequence, perform a deep dive:
-- Navigate to its corresponding "Work Order" screen. Extract the verbatim "Description of Fault" and "Subject".
+- Navigate to its corresponding "Work Order" screen. Extract the verbatim "Description of Fault" and "Subject", the customer's name (the Contact or Account name) and the customer's phone number (prefer a mobile number if several are shown).
 - Navigate to its corresponding "Asset" screen. Extract the "Serial Number (Complete)", "Product Code", "Product Brand", and "Product Category".
 - Store all extracted data points (address, fault, serial number, etc.) in a structured object associated with that job.
 
 Step 3: Data Transformation and Enrichment
 After extracting the raw data for ALL jobs, process the data for each job object:
-- Decode Production Year: Based on the "Serial Number" and "Brand", apply the rules from the Knowledge Base to calculate the "Production Year".
+- Production Year: Do NOT decode it. The app calculates it from the "Serial Number" and "Brand" itself, so always return an empty string.
 - Extract Error Code: Scan the "Description of Fault" and "Subject" fields. If an error code pattern (e.g., "E08", "E15") is found, extract it into a dedicated "Error Code" field. If none is found, this field must be blank.
 - Refine Product Type (Corrected Logic):
   - Primary Source: Use the "Product Category" extracted directly from the asset details page (e.g., "Front Loading Washing Machines", "Tumble Dryer") as the definitive Product Type.
   - Fallback Mechanism: Only if the extracted "Product Category" is missing, generic (e.g., "Laundry"), or unclear, should you then apply the "Product Type Decoding" rules from the Knowledge Base as a secondary method to determine a more specific type.
 
 Step 4: Final Output Generation
-You will generate a single JSON object with two keys: "dataTable" and "notifications".
-
-1. Generate the Raw Data Table for the "dataTable" key:
-   - The first line must be a single title line containing only the Day and Date (e.g., Thursday, Nov 13).
-   - Immediately following the title, construct a Markdown table as a single string.
-   - The table must have the exact 9-column header: Time | Address | Product Code | Product Type | Product Brand | Description of Fault | Error Code | Production Year | Serial Number.
-   - Populate the table with the fully processed and enriched data for each job.
-   - **IMPORTANT**: Leave the "Time" column BLANK or put "TBD" for now, as the user will define specific times in the next step.
-
-2. Generate the Customer Notification Messages for the "notifications" key:
-   - This should be an array of strings.
-   - Reference the original job sequence you defined in Step 1.
-   - For each job in that ORIGINAL sequence, generate the message.
-   - **CRITICAL**: You do not know the final time yet. You MUST use the exact placeholder "{{TIME_SLOT}}" in the message where the time range would normally go.
-   - Message Template: "Good evening, I am Matt, the Hoover/Candy engineer that will be coming to look at your appliance tomorrow. Your correct ETA is as follows: {{TIME_SLOT}}\\n\\nPlease note that this ETA is an estimate. Unforeseen traffic or changes in my daily schedule, such as cancellations, may mean I arrive slightly earlier or later. I will of course contact you if any significant changes to this estimate arise."
+You will generate a single JSON object with two keys: "scheduleDate" and "jobs".
+
+1. Set "scheduleDate" to the Day and Date of the schedule exactly as shown (e.g., "Thursday, Nov 13").
+
+2. Generate the structured job list for the "jobs" key:
+   - This should be an array of objects, one per job, in the ORIGINAL sequence from Step 1.
+   - Every object must contain all of these string fields: time, customerName, customerPhone, address, productCode, productType, productBrand, fault, errorCode, serialNumber.
+   - "serialNumber" must be the complete serial exactly as shown, including any letters.
+   - "fault" is the verbatim Description of Fault. Use an empty string for any value that cannot be found; never omit a field.
+   - Copy values as plain text. Do not add Markdown formatting or table pipes.
+   - **IMPORTANT**: Set "time" to "TBD" for now, as the user will define specific times in the next step.
+   - For every non-empty field you read from a screenshot, add an entry to the job's "sources" array with:
+     - "field": the field name.
+     - "sourceImage": the number of the image the value was read from (images are labelled "Image 0", "Image 1", ...).
+     - "confidence": a number from 0 to 1 for how sure you are the value was read correctly. Be honest; use low scores for blurry, truncated or ambiguous text.
+     - "box": the bounding box of the value in that image as [ymin, xmin, ymax, xmax], normalised to 0-1000.
 
 ### KNOWLEDGE BASE ###
-System Identification Logic:
-- If the Brand Name is 'Haier', use System B.
-- If the first digit of the serial number is '3', use System A.
-
-System A: Data Rules for Hoover / Candy / Associated Brands
-- Identifier: Full serial number is a continuous string of digits, beginning with '3'.
-- Serial Number Structure: Digits 1-8: Product Code. Digits 9-12: Date of Manufacture Code (YYWW). Digits 13+: Unit Production Number.
-- Date of Manufacture: Production Year = (Digits 9-10) + 2000. Production Week = Digits 11-12.
-- Product Type Decoding (Fallback Only):
-  - Starts with HLE: "Freestanding washing machine"
-  - Starts with HDB: "Integrated washing machine"
-  - Starts with HDP: "Integrated washer dryer"
-  - Starts with HD: "Freestanding tumble dryer"
-  - Starts with DXO or DX C: "Tumble Dryer"
-
-System B: Data Rules for Haier Brand
-- Identifier: Brand Name is 'Haier'.
-- Date of Manufacture (from Serial): A=2010, B=2011, C=2012, D=2013, E=2014, F=2015, G=2016, H=2017.
-
-Special Case: 20-Digit Serial Number Decoding (Haier/Hoover/Candy)
-- Trigger: Serial number is exactly 20 digits long. Overrides other date logic.
-- Structure: Digit 14 is Year Code (A=2010, B=2011, ..., H=2017).
-
-Invalid Serial Number Flag:
-- Trigger: Serial Number is exactly "0000" or ends in "0000".
-- Action: The "Serial Number" column should contain the numbers. The Production Year might be indeterminable.
+Product Type Decoding (Fallback Only), based on the Product Code:
+- Starts with HLE: "Freestanding washing machine"
+- Starts with HDB: "Integrated washing machine"
+- Starts with HDP: "Integrated washer dryer"
+- Starts with HD: "Freestanding tumble dryer"
+- Starts with DXO or DX C: "Tumble Dryer"
 `;
 }
 
@@ -83,23 +60,140 @@ const API_KEY = process.env.API_KEY;
 
 const ai = new GoogleGenAI({ apiKey: API_KEY || '' });
 
+const JOB_FIELDS: JobTextField[] = [
+  'time',
+  'customerName',
+  'customerPhone',
+  'address',
+  'productCode',
+  'productType',
+  'productBrand',
+  'fault',
+  'errorCode',
+  'productionYear',
+  'serialNumber',
+];
+
+const jobSchema = {
+  type: Type.OBJECT,
+  properties: {
+    time: { type: Type.STRING, description: 'Appointment time, or "TBD".' },
+    customerName: { type: Type.STRING, description: "Customer's name as shown on the work order." },
+    customerPhone: { type: Type.STRING, description: "Customer's phone number exactly as shown, or an empty string." },
+    address: { type: Type.STRING, description: "Full customer address including postcode." },
+    productCode: { type: Type.STRING },
+    productType: { type: Type.STRING },
+    productBrand: { type: Type.STRING },
+    fault: { type: Type.STRING, description: "Verbatim Description of Fault." },
+    errorCode: { type: Type.STRING, description: 'Error code such as "E08", or an empty string.' },
+    serialNumber: { type: Type.STRING },
+    sources: {
+      type: Type.ARRAY,
+      description: "Where each extracted value was read from, and how confident the read is.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING, enum: JOB_FIELDS.filter(field => field !== 'productionYear') },
+          sourceImage: { type: Type.INTEGER, description: "Index of the screenshot the value came from." },
+          confidence: { type: Type.NUMBER, description: "0 to 1." },
+          box: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER },
+            description: "[ymin, xmin, ymax, xmax] normalised to 0-1000.",
+          },
+        },
+        required: ['field', 'sourceImage', 'confidence'],
+      },
+    },
+  },
+  required: JOB_FIELDS.filter(field => field !== 'productionYear'),
+};
+
 const responseSchema = {
   type: Type.OBJECT,
   properties: {
-    dataTable: {
+    scheduleDate: {
       type: Type.STRING,
-      description: "A single string containing the title and the full Markdown table of processed job data.",
+      description: 'The day and date of the schedule, e.g. "Thursday, Nov 13".',
     },
-    notifications: {
+    jobs: {
       type: Type.ARRAY,
-      items: {
-        type: Type.STRING,
-        description: "A customer notification message string with the {{TIME_SLOT}} placeholder.",
-      },
-      description: "An array of customer notification messages, ordered according to the original job sequence.",
+      items: jobSchema,
+      description: "The processed job data, ordered according to the original job sequence.",
     },
   },
-  required: ['dataTable', 'notifications'],
+  required: ['scheduleDate', 'jobs'],
+};
+
+// Provenance is advisory, so malformed entries are dropped rather than failing the whole extraction
+const parseProvenance = (raw: unknown, imageCount: number): JobData['provenance'] => {
+  if (!Array.isArray(raw)) return undefined;
+  const provenance: JobData['provenance'] = {};
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { field, sourceImage, confidence, box } = entry as Record<string, unknown>;
+    if (!JOB_FIELDS.includes(field as JobTextField)) continue;
+    if (typeof sourceImage !== 'number' || sourceImage < 0 || sourceImage >= imageCount) continue;
+    if (typeof confidence !== 'number') continue;
+
+    const item: FieldProvenance = {
+      sourceImage: Math.floor(sourceImage),
+      confidence: Math.min(1, Math.max(0, confidence)),
+    };
+    if (Array.isArray(box) && box.length === 4 && box.every(n => typeof n === 'number')) {
+      item.box = box.map(n => Math.min(1000, Math.max(0, n))) as FieldProvenance['box'];
+    }
+    provenance[field as JobTextField] = item;
+  }
+  return Object.keys(provenance).length > 0 ? provenance : undefined;
+};
+
+// Gemini usually honours the schema, but a dropped or mistyped field would otherwise
+// surface much later as "undefined" in a card, so every job is checked here.
+const parseJob = (raw: unknown, index: number, imageCount: number): JobData => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Job ${index + 1} is not an object.`);
+  }
+  const record = raw as Record<string, unknown>;
+  const text = (field: JobTextField): string => {
+    const value = record[field];
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string' || typeof value === 'number') return String(value).trim();
+    throw new Error(`Job ${index + 1} has an invalid "${field}" value.`);
+  };
+  const job: JobData = {
+    id: createJobId(),
+    time: text('time') || 'TBD',
+    customerName: text('customerName'),
+    customerPhone: text('customerPhone'),
+    address: text('address'),
+    productCode: text('productCode'),
+    productType: text('productType'),
+    productBrand: text('productBrand'),
+    fault: text('fault'),
+    errorCode: text('errorCode'),
+    productionYear: text('productionYear'),
+    serialNumber: text('serialNumber'),
+    status: 'pending',
+    statusHistory: [],
+  };
+  const provenance = parseProvenance(record.sources, imageCount);
+  if (provenance) job.provenance = provenance;
+  return applySerialDecoding(job);
+};
+
+export const parseProcessedData = (raw: unknown, imageCount: number): ProcessedData => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error("Parsed JSON does not match the expected format.");
+  }
+  const data = raw as Record<string, unknown>;
+  if (!Array.isArray(data.jobs)) {
+    throw new Error("Parsed JSON does not match the expected format.");
+  }
+  return {
+    scheduleDate: typeof data.scheduleDate === 'string' ? data.scheduleDate.trim() : '',
+    jobs: data.jobs.map((job, index) => parseJob(job, index, imageCount)),
+  };
 };
 
 export async function processFieldDataFromImages(
@@ -109,12 +203,16 @@ export async function processFieldDataFromImages(
     throw new Error("API_KEY not found in environment variables.");
   }
 
-  const imageParts = base64Images.map(img => ({
-    inlineData: {
-      mimeType: 'image/png',
-      data: img,
+  // Each screenshot is labelled so the model can report which one a value came from
+  const imageParts = base64Images.flatMap((img, index) => [
+    { text: `Image ${index}:` },
+    {
+      inlineData: {
+        mimeType: 'image/png',
+        data: img,
+      },
     },
-  }));
+  ]);
   
   const masterPrompt = createMasterPrompt();
 
@@ -133,12 +231,7 @@ export async function processFieldDataFromImages(
         throw new Error("No text returned from Gemini");
     }
     
-    const parsedData = JSON.parse(rawJson);
-    if (parsedData.dataTable && Array.isArray(parsedData.notifications)) {
-      return parsedData as ProcessedData;
-    } else {
-      throw new Error("Parsed JSON does not match the expected format.");
-    }
+    return parseProcessedData(JSON.parse(rawJson), base64Images.length);
   } catch (error) {
     console.error("Gemini API Error:", error);
     throw new Error("Failed to process images. Please try again.");
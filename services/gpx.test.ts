@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { buildGpx } from './gpx';
+
+const stops = [
+  { name: 'Start', description: 'Depot', point: { lat: 51.5, lon: -0.12 } },
+  { name: 'Job 1', description: '1 High St', point: { lat: 51.501234567, lon: -0.1 } },
+  { name: 'Job 2', point: { lat: 51.6, lon: -0.2 } },
+];
+
+describe('buildGpx', () => {
+  it('lists the stops in order, as waypoints and as a route', () => {
+    const gpx = buildGpx('Wednesday 1 May', stops);
+    const waypoints = [...gpx.matchAll(/<wpt [^>]*><name>([^<]*)<\/name>/g)].map(m => m[1]);
+    const routePoints = [...gpx.matchAll(/<rtept [^>]*><name>([^<]*)<\/name>/g)].map(m => m[1]);
+
+    expect(gpx.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<gpx version="1.1"')).toBe(true);
+    expect(waypoints).toEqual(['Start', 'Job 1', 'Job 2']);
+    expect(routePoints).toEqual(['Start', 'Job 1', 'Job 2']);
+    expect(gpx).toContain('<rte><name>Wednesday 1 May</name>');
+  });
+
+  it('writes coordinates to six places and leaves out missing descriptions', () => {
+    const gpx = buildGpx('Day', stops);
+
+    expect(gpx).toContain('<wpt lat="51.501235" lon="-0.100000"><name>Job 1</name><desc>1 High St</desc></wpt>');
+    expect(gpx).toContain('<wpt lat="51.600000" lon="-0.200000"><name>Job 2</name></wpt>');
+  });
+
+  it('escapes XML in names and descriptions', () => {
+    const gpx = buildGpx('Smith & Sons <Tues>', [
+      { name: 'Job "1"', description: "O'Brien's flat <2> & shop", point: { lat: 0, lon: 0 } },
+    ]);
+
+    expect(gpx).toContain('<name>Smith &amp; Sons &lt;Tues&gt;</name>');
+    expect(gpx).toContain('<name>Job &quot;1&quot;</name><desc>O&apos;Brien&apos;s flat &lt;2&gt; &amp; shop</desc>');
+    expect(gpx).not.toMatch(/&(?!amp;|lt;|gt;|quot;|apos;)/);
+  });
+});
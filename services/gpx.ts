@@ -0,0 +1,40 @@
+import type { LatLon } from './routingProviders';
+
+export interface GpxStop {
+  name: string;
+  description?: string;
+  point: LatLon;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const pointTag = (tag: string, { name, description, point }: GpxStop) =>
+  [
+    `<${tag} lat="${point.lat.toFixed(6)}" lon="${point.lon.toFixed(6)}">`,
+    `<name>${escapeXml(name)}</name>`,
+    description ? `<desc>${escapeXml(description)}</desc>` : '',
+    `</${tag}>`,
+  ].join('');
+
+/**
+ * GPX 1.1 document with the stops as both waypoints and an ordered route, since
+ * sat-navs differ in which of the two they import.
+ */
+export const buildGpx = (routeName: string, stops: GpxStop[]): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="FieldServiceAssistant" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(routeName)}</name><time>${new Date().toISOString()}</time></metadata>`,
+    ...stops.map(stop => `  ${pointTag('wpt', stop)}`),
+    `  <rte><name>${escapeXml(routeName)}</name>`,
+    ...stops.map(stop => `    ${pointTag('rtept', stop)}`),
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n');
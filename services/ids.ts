@@ -0,0 +1,19 @@
+// Falls back to Math.random where randomUUID is unavailable (plain-HTTP LAN dev)
+const createRandomId = (prefix: string): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/** Random ID for new jobs. */
+export const createJobId = (): string => createRandomId('job');
+
+/** Random ID for new assistant conversations. */
+export const createConversationId = (): string => createRandomId('chat');
+
+/**
+ * Deterministic ID for a job in a record saved before jobs had IDs. Worksheets and
+ * their messages share a record ID, so both migrations derive the same job IDs.
+ */
+export const legacyJobId = (recordId: string, index: number): string => `${recordId}-job-${index}`;
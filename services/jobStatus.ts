@@ -0,0 +1,111 @@
+import type { JobData, JobStatus, TimeSlot } from '../types';
+import { parseClockTime } from './clock';
+
+export const JOB_STATUSES: { value: JobStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'travelling', label: 'Travelling' },
+  { value: 'on_site', label: 'On Site' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'no_access', label: 'No Access' },
+  { value: 'parts_required', label: 'Parts Required' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+export const getStatusLabel = (status: JobStatus) =>
+  JOB_STATUSES.find(s => s.value === status)?.label || status;
+
+// Statuses after which the engineer has finished with the job for the day
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'no_access', 'parts_required', 'cancelled'];
+
+export const isFinished = (status: JobStatus) => FINISHED_STATUSES.includes(status);
+
+/** Returns the job with its new status, recording when the change happened. */
+export const setJobStatus = (job: JobData, status: JobStatus, at: Date = new Date()): JobData => {
+  if (job.status === status) return job;
+  return {
+    ...job,
+    status,
+    statusHistory: [...job.statusHistory, { status, at: at.toISOString() }],
+  };
+};
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+/** Total minutes spent in `on_site`, counting an ongoing visit up to `now`. */
+export const getOnSiteMinutes = (job: JobData, now: Date = new Date()): number => {
+  let total = 0;
+  job.statusHistory.forEach((change, i) => {
+    if (change.status !== 'on_site') return;
+    const next = job.statusHistory[i + 1];
+    const end = next ? new Date(next.at).getTime() : now.getTime();
+    total += Math.max(0, end - new Date(change.at).getTime());
+  });
+  return Math.round(total / 60000);
+};
+
+/** When the engineer first arrived on site, if they have. */
+export const getArrivalTime = (job: JobData): Date | null => {
+  const arrival = job.statusHistory.find(change => change.status === 'on_site');
+  return arrival ? new Date(arrival.at) : null;
+};
+
+export interface DayProgress {
+  total: number;
+  finished: number;
+  completed: number;
+  onSiteMinutes: number;
+  plannedMinutes: number; // Slot length summed over the jobs that have been attended
+  // Minutes the day is running behind the planned windows; negative when ahead,
+  // zero while within the window, null when there's nothing left to compare.
+  scheduleDeltaMinutes: number | null;
+  currentJobId: string | null;
+}
+
+/**
+ * Summarises the day so far. The first unfinished job is compared against its arrival
+ * window: arriving (or still travelling) after the window end means the day is behind.
+ */
+export const computeDayProgress = (
+  jobs: JobData[],
+  timeSlots: { [jobId: string]: TimeSlot },
+  now: Date = new Date(),
+): DayProgress => {
+  let onSiteMinutes = 0;
+  let plannedMinutes = 0;
+
+  jobs.forEach(job => {
+    const minutes = getOnSiteMinutes(job, now);
+    onSiteMinutes += minutes;
+    const slot = timeSlots[job.id];
+    const start = slot ? parseClockTime(slot.start) : null;
+    const end = slot ? parseClockTime(slot.end) : null;
+    if (minutes > 0 && start !== null && end !== null) {
+      plannedMinutes += Math.max(0, end - start);
+    }
+  });
+
+  const current = jobs.find(job => !isFinished(job.status)) || null;
+  let scheduleDeltaMinutes: number | null = null;
+  const slot = current && timeSlots[current.id];
+  if (current && slot) {
+    const start = parseClockTime(slot.start);
+    const end = parseClockTime(slot.end);
+    const arrival = getArrivalTime(current);
+    const reference = minutesOfDay(arrival || now);
+    if (start !== null && end !== null) {
+      if (reference > end) scheduleDeltaMinutes = reference - end;
+      else if (reference < start) scheduleDeltaMinutes = reference - start;
+      else scheduleDeltaMinutes = 0;
+    }
+  }
+
+  return {
+    total: jobs.length,
+    finished: jobs.filter(job => isFinished(job.status)).length,
+    completed: jobs.filter(job => job.status === 'completed').length,
+    onSiteMinutes,
+    plannedMinutes,
+    scheduleDeltaMinutes,
+    currentJobId: current?.id || null,
+  };
+};
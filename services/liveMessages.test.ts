@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { deriveMessages, withMessageSent } from './liveMessages';
+import { DEFAULT_MESSAGE_SETTINGS } from './settings';
+import type { JobData, SavedMessages, WorksheetData } from '../types';
+
+const job = (id: string, overrides: Partial<JobData> = {}): JobData => ({
+  id,
+  time: 'AM',
+  customerName: 'Mrs Smith',
+  customerPhone: '07700 900123',
+  address: '1 High St',
+  productCode: '',
+  productType: 'Washing machine',
+  productBrand: 'Bosch',
+  fault: 'Leaking',
+  errorCode: '',
+  productionYear: '',
+  serialNumber: '',
+  status: 'pending',
+  statusHistory: [],
+  ...overrides,
+});
+
+const worksheet = (jobs: JobData[], slots: WorksheetData['timeSlots']): WorksheetData => ({
+  id: 'w1',
+  schemaVersion: 6,
+  date: '2024-05-01T08:00:00.000Z',
+  createdAt: '2024-05-01T08:00:00.000Z',
+  dateLabel: 'Wednesday 1 May',
+  timeSlots: slots,
+  jobs,
+  comments: {},
+  startAddress: '',
+});
+
+const emptyGroup: SavedMessages = {
+  id: 'w1',
+  schemaVersion: 4,
+  date: '2024-05-01T08:00:00.000Z',
+  createdAt: '2024-05-01T08:00:00.000Z',
+  dateLabel: 'Wednesday 1 May',
+  messages: [],
+};
+
+const sentGroup = (sheet: WorksheetData) => {
+  const [message] = deriveMessages(emptyGroup, sheet, DEFAULT_MESSAGE_SETTINGS);
+  return withMessageSent(emptyGroup, message, true);
+};
+
+describe('deriveMessages', () => {
+  const sheet = worksheet([job('a')], { a: { start: '09:00', end: '11:00' } });
+
+  it('is not stale straight after sending', () => {
+    const [message] = deriveMessages(sentGroup(sheet), sheet, DEFAULT_MESSAGE_SETTINGS);
+    expect(message.sentAt).not.toBeNull();
+    expect(message.sentText).toBe(message.text);
+    expect(message.isStale).toBe(false);
+  });
+
+  it.each([
+    ['the slot moves', worksheet([job('a')], { a: { start: '13:00', end: '15:00' } })],
+    ['the fault is edited', worksheet([job('a', { fault: 'Not spinning' })], { a: { start: '09:00', end: '11:00' } })],
+  ])('is stale once %s', (_, changed) => {
+    const [message] = deriveMessages(sentGroup(sheet), changed, DEFAULT_MESSAGE_SETTINGS);
+    expect(message.isStale).toBe(true);
+  });
+
+  it('is not stale when only the template or engineer name changes', () => {
+    const settings = {
+      engineerName: 'Someone else',
+      templates: DEFAULT_MESSAGE_SETTINGS.templates.map(t => ({ ...t, body: `${t.body} Thanks!` })),
+    };
+    const [message] = deriveMessages(sentGroup(sheet), sheet, settings);
+    expect(message.isStale).toBe(false);
+  });
+
+  it('never flags messages sent before snapshots were kept', () => {
+    const legacy: SavedMessages = {
+      ...emptyGroup,
+      messages: [{ jobId: 'a', text: 'Old Gemini wording', phone: '', sentAt: '2024-04-30T18:00:00.000Z', sentSnapshot: null }],
+    };
+    const [message] = deriveMessages(legacy, sheet, DEFAULT_MESSAGE_SETTINGS);
+    expect(message.sentText).toBe('Old Gemini wording');
+    expect(message.isStale).toBe(false);
+  });
+
+  it('shows the stored text when the worksheet is gone', () => {
+    const group = sentGroup(sheet);
+    expect(deriveMessages(group, null, DEFAULT_MESSAGE_SETTINGS)).toMatchObject([
+      { jobId: 'a', text: group.messages[0].text, isStale: false },
+    ]);
+  });
+});
+
+describe('withMessageSent', () => {
+  it('clears the snapshot when a message is marked unsent', () => {
+    const sheet = worksheet([job('a')], {});
+    const group = sentGroup(sheet);
+    const [message] = deriveMessages(group, sheet, DEFAULT_MESSAGE_SETTINGS);
+    expect(withMessageSent(group, message, false).messages[0]).toMatchObject({ sentAt: null, sentSnapshot: null });
+  });
+});
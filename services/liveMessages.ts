@@ -0,0 +1,94 @@
+import type { CustomerMessage, JobData, MessageJobSnapshot, SavedMessages, WorksheetData } from '../types';
+import type { MessageSettings } from './settings';
+import { renderJobMessage } from './messageTemplates';
+
+// A message group shares its ID with the worksheet it was saved from. The text shown is
+// rendered from the worksheet as it is now, so edited jobs and moved slots are always
+// reflected; the stored copy records what the customer was actually sent.
+
+export interface LiveMessage {
+  jobId: string;
+  text: string; // Current text, from the worksheet
+  phone: string;
+  sentAt: string | null;
+  sentText: string | null; // What was sent, when it has been
+  snapshot: MessageJobSnapshot | null; // The job details the current text is written from
+  isStale: boolean; // Sent, but the job or its slot has changed since
+}
+
+const formatSlot = (worksheet: WorksheetData, jobId: string) => {
+  const slot = worksheet.timeSlots[jobId];
+  return slot ? `${slot.start} - ${slot.end}` : '[TIME]';
+};
+
+export const snapshotJob = (job: JobData, timeSlot: string): MessageJobSnapshot => ({
+  customerName: job.customerName,
+  productBrand: job.productBrand,
+  productType: job.productType,
+  fault: job.fault,
+  timeSlot,
+});
+
+// Compared by field rather than by rendered text, so editing a template or the
+// engineer's name doesn't make every sent message look out of date
+const snapshotsDiffer = (a: MessageJobSnapshot, b: MessageJobSnapshot) =>
+  (Object.keys(a) as (keyof MessageJobSnapshot)[]).some(key => a[key] !== b[key]);
+
+const fromStored = (message: CustomerMessage): LiveMessage => ({
+  jobId: message.jobId,
+  text: message.text,
+  phone: message.phone,
+  sentAt: message.sentAt,
+  sentText: message.sentAt ? message.text : null,
+  snapshot: message.sentSnapshot,
+  isStale: false,
+});
+
+/** Messages in the worksheet's job order. Without a worksheet, the stored text is all there is. */
+export const deriveMessages = (
+  group: SavedMessages,
+  worksheet: WorksheetData | null,
+  settings: MessageSettings,
+): LiveMessage[] => {
+  if (!worksheet) return group.messages.map(fromStored);
+
+  const stored = new Map(group.messages.map(message => [message.jobId, message]));
+  return worksheet.jobs.map(job => {
+    const saved = stored.get(job.id);
+    const timeSlot = formatSlot(worksheet, job.id);
+    const snapshot = snapshotJob(job, timeSlot);
+    const sentAt = saved?.sentAt ?? null;
+    const sentSnapshot = sentAt ? saved!.sentSnapshot : null;
+    return {
+      jobId: job.id,
+      text: renderJobMessage('evening_eta', job, timeSlot, settings),
+      phone: job.customerPhone,
+      sentAt,
+      sentText: sentAt ? saved!.text : null,
+      snapshot,
+      isStale: !!sentSnapshot && snapshotsDiffer(sentSnapshot, snapshot),
+    };
+  });
+};
+
+/**
+ * The group with one message marked as sent (snapshotting the text that went out and
+ * the job details behind it) or back to unsent. Messages for jobs the group didn't
+ * know about are added.
+ */
+export const withMessageSent = (group: SavedMessages, message: LiveMessage, sent: boolean): SavedMessages => {
+  const updated: CustomerMessage = {
+    jobId: message.jobId,
+    text: message.text,
+    phone: message.phone,
+    sentAt: sent ? new Date().toISOString() : null,
+    sentSnapshot: sent ? message.snapshot : null,
+  };
+  const exists = group.messages.some(m => m.jobId === message.jobId);
+  return {
+    ...group,
+    messages: exists
+      ? group.messages.map(m => (m.jobId === message.jobId ? updated : m))
+      : [...group.messages, updated],
+  };
+};
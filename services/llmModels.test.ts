@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { prebuiltAppConfig } from '@mlc-ai/web-llm';
+import { deleteCachedModel, getContextTokens, LLM_MODELS, listCachedModels } from './llmModels';
+
+const QWEN = 'Qwen2.5-0.5B-Instruct-q4f16_1-MLC';
+const record = (id: string) => prebuiltAppConfig.model_list.find(entry => entry.model_id === id)!;
+const shard = (id: string) => `${record(id).model}/resolve/main/params_shard_0.bin`;
+
+// Cache Storage kept in maps, holding a small body without a length header for each URL
+const stubCaches = (contents: Record<string, string[]>) => {
+  const stores = new Map(Object.entries(contents).map(([name, urls]) => [name, new Set(urls)]));
+  vi.stubGlobal('caches', {
+    keys: async () => [...stores.keys()],
+    open: async (name: string) => {
+      const store = stores.get(name)!;
+      return {
+        keys: async () => [...store].map(url => new Request(url)),
+        match: async (request: Request) => (store.has(request.url) ? new Response('12345') : undefined),
+        delete: async (request: Request) => store.delete(request.url),
+      };
+    },
+  });
+  return stores;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('model catalogue', () => {
+  it('offers only builds WebLLM knows, with their memory needs and context windows', () => {
+    for (const model of LLM_MODELS) {
+      expect(model.vramMb).toBe(record(model.id).vram_required_MB);
+      expect(getContextTokens(model.id)).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('cached models', () => {
+  it('groups files by model, crediting a shared runtime library to the offered build', async () => {
+    stubCaches({ 'webllm/model': [shard(QWEN), shard('Qwen2-0.5B-Instruct-q4f16_1-MLC')], 'webllm/wasm': [record(QWEN).model_lib] });
+
+    const models = await listCachedModels();
+
+    expect(models.find(model => model.id === QWEN)).toMatchObject({ label: 'Qwen 2.5 0.5B', files: 2, bytes: 10 });
+    expect(models.find(model => model.id === 'Qwen2-0.5B-Instruct-q4f16_1-MLC')).toMatchObject({ files: 1, bytes: 5 });
+  });
+
+  it('keeps a runtime library another cached model still runs on', async () => {
+    const stores = stubCaches({
+      'webllm/model': [shard(QWEN), shard('Qwen2-0.5B-Instruct-q4f16_1-MLC')],
+      'webllm/wasm': [record(QWEN).model_lib],
+    });
+
+    await deleteCachedModel(QWEN);
+
+    expect([...stores.get('webllm/model')!]).toEqual([shard('Qwen2-0.5B-Instruct-q4f16_1-MLC')]);
+    expect([...stores.get('webllm/wasm')!]).toEqual([record(QWEN).model_lib]);
+  });
+
+  it('removes the runtime library along with the last model using it', async () => {
+    const stores = stubCaches({ 'webllm/model': [shard(QWEN)], 'webllm/wasm': [record(QWEN).model_lib] });
+
+    await deleteCachedModel(QWEN);
+
+    expect(stores.get('webllm/model')!.size).toBe(0);
+    expect(stores.get('webllm/wasm')!.size).toBe(0);
+  });
+});
@@ -0,0 +1,221 @@
+import { prebuiltAppConfig } from '@mlc-ai/web-llm';
+import { DEFAULT_ASSISTANT_SETTINGS, type LlmModelId } from './settings';
+
+// Models the local assistant can run, from smallest to largest. The weights download
+// once and are kept in Cache Storage, both by WebLLM itself and by the service worker's
+// runtime caches (see vite.config.ts), so the storage manager looks in all of them.
+
+export interface LlmModel {
+  id: LlmModelId;
+  label: string;
+  downloadMb: number; // Approximate, weights plus runtime library
+  vramMb: number; // GPU memory WebLLM reports the model needs
+  needsShaderF16: boolean; // q4f16 builds need the WebGPU shader-f16 feature
+}
+
+const prebuiltRecord = (id: string) => prebuiltAppConfig.model_list.find(entry => entry.model_id === id);
+
+const CATALOGUE: Omit<LlmModel, 'vramMb'>[] = [
+  { id: 'Qwen2.5-0.5B-Instruct-q4f16_1-MLC', label: 'Qwen 2.5 0.5B', downloadMb: 300, needsShaderF16: true },
+  { id: 'Llama-3.2-1B-Instruct-q4f16_1-MLC', label: 'Llama 3.2 1B', downloadMb: 700, needsShaderF16: true },
+  { id: 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC', label: 'Qwen 2.5 1.5B', downloadMb: 900, needsShaderF16: true },
+  { id: 'Llama-3.2-3B-Instruct-q4f16_1-MLC', label: 'Llama 3.2 3B', downloadMb: 1800, needsShaderF16: true },
+  { id: 'Phi-3.5-mini-instruct-q4f16_1-MLC', label: 'Phi 3.5 mini', downloadMb: 2100, needsShaderF16: true },
+  { id: 'Llama-3-8B-Instruct-q4f32_1-MLC', label: 'Llama 3 8B', downloadMb: 4500, needsShaderF16: false },
+];
+
+export const LLM_MODELS: LlmModel[] = CATALOGUE.map(model => ({
+  ...model,
+  vramMb: prebuiltRecord(model.id)?.vram_required_MB ?? 0,
+}));
+
+/** The catalogue entry for a model ID, or the default model for one no longer offered. */
+export const getLlmModel = (id: string): LlmModel =>
+  LLM_MODELS.find(model => model.id === id) ?? LLM_MODELS.find(model => model.id === DEFAULT_ASSISTANT_SETTINGS.model)!;
+
+// Assumed for any build that doesn't state its window
+const DEFAULT_CONTEXT_TOKENS = 4096;
+
+/** How many tokens the model can attend to, from WebLLM's configuration for it. */
+export const getContextTokens = (id: LlmModelId): number =>
+  prebuiltRecord(id)?.overrides?.context_window_size ?? DEFAULT_CONTEXT_TOKENS;
+
+export const formatMegabytes = (mb: number) => (mb >= 1000 ? `${(mb / 1000).toFixed(1)} GB` : `${Math.round(mb)} MB`);
+
+export interface GpuCapability {
+  supported: boolean;
+  reason: string | null; // Why WebGPU can't be used, when it can't
+  adapter: string | null; // GPU description, when the browser reveals it
+  hasShaderF16: boolean;
+  maxBufferMb: number; // Largest single GPU buffer allowed
+  deviceMemoryMb: number | null; // Approximate RAM (navigator.deviceMemory, capped at 8 GB by browsers)
+}
+
+// The parts of WebGPU and the Device Memory API used here, which TypeScript's DOM types lack
+interface GpuAdapterInfo {
+  vendor?: string;
+  architecture?: string;
+  description?: string;
+}
+
+interface GpuAdapter {
+  info?: GpuAdapterInfo;
+  features: ReadonlySet<string>;
+  limits: { maxBufferSize: number };
+}
+
+interface GpuNavigator extends Navigator {
+  deviceMemory?: number; // GB, rounded and capped by the browser
+  gpu?: { requestAdapter(options?: { powerPreference?: 'low-power' | 'high-performance' }): Promise<GpuAdapter | null> };
+}
+
+let capability: Promise<GpuCapability> | null = null;
+
+const probeGpu = async (): Promise<GpuCapability> => {
+  const { deviceMemory, gpu }: GpuNavigator = navigator;
+  const unsupported = (reason: string): GpuCapability => ({
+    supported: false,
+    reason,
+    adapter: null,
+    hasShaderF16: false,
+    maxBufferMb: 0,
+    deviceMemoryMb: typeof deviceMemory === 'number' ? deviceMemory * 1024 : null,
+  });
+
+  if (!gpu) return unsupported('This browser does not support WebGPU.');
+  try {
+    const adapter = await gpu.requestAdapter({ powerPreference: 'high-performance' });
+    if (!adapter) return unsupported('WebGPU is available but no compatible GPU was found.');
+    const info = adapter.info ?? {};
+    return {
+      supported: true,
+      reason: null,
+      adapter: [info.vendor, info.architecture, info.description].filter(Boolean).join(' ') || null,
+      hasShaderF16: adapter.features.has('shader-f16'),
+      maxBufferMb: adapter.limits.maxBufferSize / (1024 * 1024),
+      deviceMemoryMb: typeof deviceMemory === 'number' ? deviceMemory * 1024 : null,
+    };
+  } catch (e) {
+    return unsupported(e instanceof Error ? e.message : 'WebGPU could not be initialised.');
+  }
+};
+
+/** What this device's WebGPU offers. Probed once and shared. */
+export const checkGpuCapability = (): Promise<GpuCapability> => {
+  capability ??= probeGpu();
+  return capability;
+};
+
+export interface ModelFit {
+  canRun: boolean; // False when the model can't load at all on this device
+  warning: string | null; // Set when it may load but is likely to fail or be slow
+}
+
+/**
+ * Whether a model suits the device. Browsers don't report VRAM, so memory is judged
+ * from the largest buffer the GPU allows and the device's RAM; both are rough guides.
+ */
+export const assessModelFit = (model: LlmModel, gpu: GpuCapability): ModelFit => {
+  if (!gpu.supported) return { canRun: false, warning: gpu.reason };
+  if (model.needsShaderF16 && !gpu.hasShaderF16) {
+    return { canRun: false, warning: 'This GPU lacks 16-bit float support (shader-f16), which this model needs.' };
+  }
+  // deviceMemory stops at 8 GB, so only a smaller figure is a meaningful limit
+  if (gpu.deviceMemoryMb !== null && gpu.deviceMemoryMb < 8192 && model.vramMb > gpu.deviceMemoryMb * 0.5) {
+    return {
+      canRun: true,
+      warning: `Needs about ${formatMegabytes(model.vramMb)} of GPU memory; this device has ${formatMegabytes(gpu.deviceMemoryMb)} RAM in total.`,
+    };
+  }
+  if (gpu.maxBufferMb > 0 && gpu.maxBufferMb < 1024 && model.vramMb > 2048) {
+    return { canRun: true, warning: 'This GPU has tight memory limits and may not be able to load a model this large.' };
+  }
+  return { canRun: true, warning: null };
+};
+
+// The service worker's runtime caches, then WebLLM's own
+const MODEL_CACHES = ['llm-models', 'llm-wasm', 'webllm/model', 'webllm/wasm', 'webllm/config'];
+
+export interface CachedModel {
+  id: string; // Catalogue ID, or the cached repository / library name for unknown models
+  label: string;
+  bytes: number;
+  files: number;
+}
+
+/** The model whose weights or config a cached URL is, if it is one WebLLM knows. */
+const weightsOwner = (url: string) =>
+  prebuiltAppConfig.model_list.find(entry => url.startsWith(`${entry.model.replace(/\/$/, '')}/`))?.model_id ?? null;
+
+/** Every build that runs on the runtime library at this URL. */
+const libraryUsers = (url: string) =>
+  prebuiltAppConfig.model_list.filter(entry => entry.model_lib === url).map(entry => entry.model_id);
+
+/** Which model a cached URL belongs to, using WebLLM's own model and library URLs. */
+const modelIdForUrl = (url: string): string => {
+  const owner = weightsOwner(url);
+  if (owner) return owner;
+  const users = libraryUsers(url);
+  if (users.length > 0) {
+    // Several builds share a runtime library; credit it to one the catalogue offers
+    return users.find(id => LLM_MODELS.some(model => model.id === id)) ?? users[0];
+  }
+  const repo = /huggingface\.co\/[^/]+\/([^/]+)\//.exec(url);
+  return repo ? repo[1] : url.split('/').pop() || url;
+};
+
+const responseBytes = async (response: Response): Promise<number> => {
+  const length = Number(response.headers.get('content-length'));
+  if (length > 0) return length;
+  // Without a length header the body is counted as it streams, so a shard is never held whole
+  if (!response.body) return 0;
+  const reader = response.body.getReader();
+  let bytes = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) bytes += chunk.value.byteLength;
+  return bytes;
+};
+
+/** Cached model files grouped by model, largest first. */
+export const listCachedModels = async (): Promise<CachedModel[]> => {
+  if (typeof caches === 'undefined') return [];
+  const byModel = new Map<string, CachedModel>();
+  const existing = new Set(await caches.keys());
+
+  for (const name of MODEL_CACHES.filter(n => existing.has(n))) {
+    const cache = await caches.open(name);
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      if (!response) continue;
+      const id = modelIdForUrl(request.url);
+      const entry = byModel.get(id) ?? { id, label: LLM_MODELS.find(m => m.id === id)?.label ?? id, bytes: 0, files: 0 };
+      entry.bytes += await responseBytes(response);
+      entry.files += 1;
+      byModel.set(id, entry);
+    }
+  }
+  return [...byModel.values()].sort((a, b) => b.bytes - a.bytes);
+};
+
+/**
+ * Removes every cached file belonging to a model, as grouped by listCachedModels. A
+ * runtime library is kept while another model with cached weights still runs on it.
+ */
+export const deleteCachedModel = async (id: string): Promise<void> => {
+  if (typeof caches === 'undefined') return;
+  const existing = new Set(await caches.keys());
+  const cached = await Promise.all(
+    MODEL_CACHES.filter(n => existing.has(n)).map(async name => {
+      const cache = await caches.open(name);
+      return { cache, requests: await cache.keys() };
+    }),
+  );
+
+  const otherModels = new Set(cached.flatMap(({ requests }) => requests.map(request => weightsOwner(request.url))));
+  otherModels.delete(id);
+  const stillNeeded = (url: string) => libraryUsers(url).some(user => otherModels.has(user));
+
+  for (const { cache, requests } of cached) {
+    const owned = requests.filter(request => modelIdForUrl(request.url) === id && !stillNeeded(request.url));
+    await Promise.all(owned.map(request => cache.delete(request)));
+  }
+};
@@ -0,0 +1,74 @@
+import type { LatLon } from './routingProviders';
+
+// Web Mercator maths for the standard 256px slippy-map tile grid
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 18;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom;
+
+/** Pixel position of a coordinate on the whole-world map at `zoom`. */
+export const project = ({ lat, lon }: LatLon, zoom: number): Point => {
+  const size = worldSize(zoom);
+  const sin = Math.sin((Math.max(-85.05, Math.min(85.05, lat)) * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+};
+
+export const unproject = ({ x, y }: Point, zoom: number): LatLon => {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lon: (x / size) * 360 - 180,
+  };
+};
+
+/** Centre and zoom that fit every point inside a viewport, leaving `padding` px at the edges. */
+export const fitBounds = (
+  points: LatLon[],
+  width: number,
+  height: number,
+  padding = 40,
+): { center: LatLon; zoom: number } => {
+  const lats = points.map(p => p.lat);
+  const lons = points.map(p => p.lon);
+  const northWest = { lat: Math.max(...lats), lon: Math.min(...lons) };
+  const southEast = { lat: Math.min(...lats), lon: Math.max(...lons) };
+  const center = unproject(
+    {
+      x: (project(northWest, 0).x + project(southEast, 0).x) / 2,
+      y: (project(northWest, 0).y + project(southEast, 0).y) / 2,
+    },
+    0,
+  );
+
+  let zoom = MAX_ZOOM - 2; // A single stop shouldn't zoom in to street furniture
+  while (zoom > MIN_ZOOM) {
+    const nw = project(northWest, zoom);
+    const se = project(southEast, zoom);
+    if (se.x - nw.x <= width - padding * 2 && se.y - nw.y <= height - padding * 2) break;
+    zoom--;
+  }
+  return { center, zoom };
+};
+
+/** Fills a tile URL template such as `https://tile.openstreetmap.org/{z}/{x}/{y}.png`. */
+export const tileUrl = (template: string, x: number, y: number, zoom: number) => {
+  const tiles = 2 ** zoom;
+  const wrappedX = ((x % tiles) + tiles) % tiles;
+  const subdomain = 'abc'[(wrappedX + y) % 3];
+  return template
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(wrappedX))
+    .replace('{y}', String(y))
+    .replace('{s}', subdomain);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildTemplateValues, findUnknownPlaceholders, renderJobMessage, renderTemplate } from './messageTemplates';
+import { DEFAULT_MESSAGE_SETTINGS } from './settings';
+import type { JobData } from '../types';
+
+const job: JobData = {
+  id: 'a',
+  time: 'AM',
+  customerName: 'Mrs Smith',
+  customerPhone: '07700 900123',
+  address: '1 High St',
+  productCode: '',
+  productType: 'Washing machine',
+  productBrand: 'Bosch',
+  fault: 'Leaking',
+  errorCode: '',
+  productionYear: '',
+  serialNumber: '',
+  status: 'pending',
+  statusHistory: [],
+};
+
+describe('renderTemplate', () => {
+  it('substitutes placeholders, allowing spaces inside the braces', () => {
+    expect(renderTemplate('Hi {{customerName}}, see you {{ timeSlot }}.', { customerName: 'Mrs Smith', timeSlot: '08:00 - 09:00' }))
+      .toBe('Hi Mrs Smith, see you 08:00 - 09:00.');
+  });
+
+  it('uses the fallback for blank values', () => {
+    expect(renderTemplate('Hi {{customerName|there}}', { customerName: '' })).toBe('Hi there');
+    expect(renderTemplate('Hi {{customerName| there }}', { customerName: '   ' })).toBe('Hi there');
+    expect(renderTemplate('Hi {{customerName|there}}', { customerName: 'Mrs Smith' })).toBe('Hi Mrs Smith');
+  });
+
+  it('renders a blank value without a fallback as nothing', () => {
+    expect(renderTemplate('Your {{brand}} repair', { brand: '' })).toBe('Your  repair');
+    expect(renderTemplate('[{{brand}}]', { brand: undefined })).toBe('[]');
+  });
+
+  it('leaves unknown placeholders as written', () => {
+    expect(renderTemplate('Hi {{custName|there}}', { customerName: 'Mrs Smith' })).toBe('Hi {{custName|there}}');
+  });
+
+  it('ignores names inherited from Object.prototype', () => {
+    const body = '{{toString}} {{constructor}} {{hasOwnProperty|x}} {{__proto__}}';
+    expect(renderTemplate(body, { customerName: 'Mrs Smith' })).toBe(body);
+  });
+});
+
+describe('findUnknownPlaceholders', () => {
+  it('lists each unknown name once', () => {
+    expect(findUnknownPlaceholders('{{customerName}} {{custName}} {{toString}} {{custName|x}}')).toEqual(['custName', 'toString']);
+  });
+});
+
+describe('renderJobMessage', () => {
+  it('fills a saved template from the job', () => {
+    const settings = { ...DEFAULT_MESSAGE_SETTINGS, templates: [{ ...DEFAULT_MESSAGE_SETTINGS.templates[0], body: '{{engineerName}}: {{brand}} {{productType}}, {{fault}} at {{timeSlot}}' }] };
+    const templateId = settings.templates[0].id;
+
+    expect(renderJobMessage(templateId, job, '08:00 - 09:00', settings)).toBe('Matt: Bosch Washing machine, Leaking at 08:00 - 09:00');
+    expect(buildTemplateValues(job, '08:00 - 09:00', settings).customerName).toBe('Mrs Smith');
+  });
+
+  it('is empty for a template that does not exist', () => {
+    expect(renderJobMessage('evening_eta', job, '', { ...DEFAULT_MESSAGE_SETTINGS, templates: [] })).toBe('');
+  });
+});
@@ -0,0 +1,57 @@
+import type { JobData } from '../types';
+import type { MessageSettings, MessageTemplateId } from './settings';
+
+// Customer messages are rendered locally from job data. Placeholders look like
+// {{name}}; {{name|fallback}} uses the fallback text when the value is empty.
+
+export const MESSAGE_PLACEHOLDERS = [
+  { key: 'engineerName', label: 'Engineer name' },
+  { key: 'brand', label: 'Product brand' },
+  { key: 'customerName', label: 'Customer name' },
+  { key: 'timeSlot', label: 'Arrival window' },
+  { key: 'productType', label: 'Product type' },
+  { key: 'fault', label: 'Fault description' },
+] as const;
+
+export type MessagePlaceholder = typeof MESSAGE_PLACEHOLDERS[number]['key'];
+
+export type TemplateValues = Record<MessagePlaceholder, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+/** Fills placeholders in `body`. Unknown placeholders are left as written so typos stand out. */
+export const renderTemplate = (body: string, values: Partial<Record<string, string>>): string =>
+  body.replace(PLACEHOLDER_PATTERN, (match, key: string, fallback?: string) => {
+    // Own keys only, so {{toString}} and the like aren't taken from the prototype
+    if (!Object.prototype.hasOwnProperty.call(values, key)) return match;
+    return values[key]?.trim() || (fallback ?? '').trim();
+  });
+
+/** Placeholder names used in `body` that the engine doesn't know about. */
+export const findUnknownPlaceholders = (body: string): string[] => {
+  const known = new Set<string>(MESSAGE_PLACEHOLDERS.map(p => p.key));
+  const unknown = new Set<string>();
+  for (const [, key] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!known.has(key)) unknown.add(key);
+  }
+  return [...unknown];
+};
+
+export const buildTemplateValues = (job: JobData, timeSlot: string, settings: MessageSettings): TemplateValues => ({
+  engineerName: settings.engineerName,
+  brand: job.productBrand,
+  customerName: job.customerName,
+  timeSlot,
+  productType: job.productType,
+  fault: job.fault,
+});
+
+export const renderJobMessage = (
+  templateId: MessageTemplateId,
+  job: JobData,
+  timeSlot: string,
+  settings: MessageSettings,
+): string => {
+  const template = settings.templates.find(t => t.id === templateId);
+  return template ? renderTemplate(template.body, buildTemplateValues(job, timeSlot, settings)) : '';
+};
@@ -0,0 +1,28 @@
+// Deep links that open the phone's messaging apps with a message ready to send.
+// Numbers are assumed to be UK ones unless they carry a country code.
+
+const UK_COUNTRY_CODE = '44';
+
+/** International format without spaces (e.g. "+447700900123"), or '' if it isn't a usable number. */
+export const normalisePhone = (raw: string): string => {
+  const trimmed = raw.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return '';
+
+  if (trimmed.startsWith('+')) {
+    // Already international; drop a trunk "(0)" written after the country code
+    digits = digits.replace(new RegExp(`^${UK_COUNTRY_CODE}0`), UK_COUNTRY_CODE);
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = UK_COUNTRY_CODE + digits.slice(1);
+  }
+  return digits.length >= 9 ? `+${digits}` : '';
+};
+
+// "?&body=" is understood by both iOS ("&body=") and Android ("?body=") messaging apps
+export const getSmsUrl = (phone: string, body: string) =>
+  `sms:${normalisePhone(phone)}?&body=${encodeURIComponent(body)}`;
+
+export const getWhatsAppUrl = (phone: string, body: string) =>
+  `https://wa.me/${normalisePhone(phone).replace('+', '')}?text=${encodeURIComponent(body)}`;
@@ -0,0 +1,89 @@
+import type { FieldProvenance, JobData, JobTextField } from '../types';
+
+// Fields below this confidence are highlighted for the engineer to double-check
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Extra margin (on the 0-1000 grid) around a crop so the label next to the value is visible
+const CROP_PADDING = 40;
+const SNIPPET_MAX_WIDTH = 480;
+
+export const isLowConfidence = (provenance?: FieldProvenance): boolean =>
+  !!provenance && provenance.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+export const getLowConfidenceFields = (job: JobData): JobTextField[] =>
+  (Object.keys(job.provenance || {}) as JobTextField[]).filter(field => isLowConfidence(job.provenance?.[field]));
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load source image'));
+    img.src = src;
+  });
+
+/**
+ * Crops the region described by `box` (0-1000 grid) out of an image and returns it
+ * as a JPEG data URL. Without a box the whole image is scaled down instead.
+ */
+export const cropImageRegion = async (src: string, box?: FieldProvenance['box']): Promise<string> => {
+  const img = await loadImage(src);
+  const [ymin, xmin, ymax, xmax] = box
+    ? [
+        Math.max(0, box[0] - CROP_PADDING),
+        Math.max(0, box[1] - CROP_PADDING),
+        Math.min(1000, box[2] + CROP_PADDING),
+        Math.min(1000, box[3] + CROP_PADDING),
+      ]
+    : [0, 0, 1000, 1000];
+
+  const sx = (xmin / 1000) * img.naturalWidth;
+  const sy = (ymin / 1000) * img.naturalHeight;
+  const sw = Math.max(1, ((xmax - xmin) / 1000) * img.naturalWidth);
+  const sh = Math.max(1, ((ymax - ymin) / 1000) * img.naturalHeight);
+  const scale = Math.min(1, SNIPPET_MAX_WIDTH / sw);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+/**
+ * Stores a cropped snippet for every low-confidence field. The full screenshots are
+ * not persisted, so this is what lets a saved worksheet still show where a value came from.
+ */
+export const attachSnippets = async (jobs: JobData[], imageUrls: string[]): Promise<JobData[]> =>
+  Promise.all(
+    jobs.map(async job => {
+      const lowFields = getLowConfidenceFields(job);
+      if (lowFields.length === 0) return job;
+
+      const provenance = { ...job.provenance };
+      for (const field of lowFields) {
+        const entry = provenance[field]!;
+        const src = imageUrls[entry.sourceImage];
+        if (!src || entry.snippet) continue;
+        try {
+          provenance[field] = { ...entry, snippet: await cropImageRegion(src, entry.box) };
+        } catch (e) {
+          console.warn('Failed to crop source for', field, e);
+        }
+      }
+      return { ...job, provenance };
+    })
+  );
+
+/** Marks fields the engineer has edited by hand as fully trusted. */
+export const confirmEditedFields = (original: JobData, edited: JobData): JobData => {
+  if (!original.provenance) return edited;
+  const provenance = { ...original.provenance };
+  (Object.keys(provenance) as JobTextField[]).forEach(field => {
+    if (original[field] !== edited[field]) {
+      provenance[field] = { ...provenance[field]!, confidence: 1 };
+    }
+  });
+  return { ...edited, provenance };
+};
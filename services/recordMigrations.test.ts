@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENT_MESSAGES_VERSION,
+  CURRENT_WORKSHEET_VERSION,
+  RecordValidationError,
+  upgradeMessages,
+  upgradeWorksheet,
+} from './recordMigrations';
+
+// A worksheet as saved before records were versioned: index-keyed comments and slots,
+// no job IDs, statuses or customer details
+const v0Worksheet = () => ({
+  id: '1714550400000',
+  date: '2024-05-01T08:00:00.000Z',
+  jobs: [
+    { time: '08:00-12:00', address: '1 High St', productCode: 'WM123', productType: 'Washer', productBrand: 'Bosch',
+      fault: 'Leaking', errorCode: 'E18', productionYear: 2019, serialNumber: 'FD9901' },
+    { address: '2 Low Rd', fault: 'No heat' },
+  ],
+  comments: { 0: 'Bring a pump', 1: '', note: 'dropped' },
+  timeSlots: [{ start: '08:30', end: '09:30' }, { start: '10:00', end: '11:00' }],
+});
+
+describe('upgradeWorksheet', () => {
+  it('walks a v0 worksheet up to the current schema', () => {
+    const { record, migrated } = upgradeWorksheet(v0Worksheet());
+    expect(migrated).toBe(true);
+    expect(record.schemaVersion).toBe(CURRENT_WORKSHEET_VERSION);
+    expect(record.createdAt).toBe('2024-05-01T08:00:00.000Z');
+    expect(record.dateLabel).toBeTruthy();
+    expect(record.startAddress).toBe('');
+
+    const [first, second] = record.jobs;
+    expect(first.id).toBe('1714550400000-job-0');
+    expect(first.productionYear).toBe('2019');
+    expect(first.status).toBe('pending');
+    expect(first.statusHistory).toEqual([]);
+    expect(first.customerName).toBe('');
+    expect(first.customerPhone).toBe('');
+    expect(second.time).toBe('TBD');
+    expect(second.serialNumber).toBe('');
+
+    expect(record.comments).toEqual({ '1714550400000-job-0': 'Bring a pump' });
+    expect(record.timeSlots).toEqual({
+      '1714550400000-job-0': { start: '08:30', end: '09:30' },
+      '1714550400000-job-1': { start: '10:00', end: '11:00' },
+    });
+  });
+
+  it('leaves a current worksheet as it is', () => {
+    const { record } = upgradeWorksheet(v0Worksheet());
+    const again = upgradeWorksheet(record);
+    expect(again.migrated).toBe(false);
+    expect(again.record).toEqual(record);
+  });
+
+  it.each([
+    ['not an object', 'nonsense', 'Record is not an object'],
+    ['no id', { ...v0Worksheet(), id: undefined }, 'Record has no id'],
+    ['no readable date', { ...v0Worksheet(), date: 'soon' }, 'Record has no readable date'],
+    ['no job list', { ...v0Worksheet(), jobs: null }, 'Worksheet has no job list'],
+    ['a job that is not an object', { ...v0Worksheet(), jobs: ['job'] }, 'Job 1 is not an object'],
+    ['a newer schema', { ...v0Worksheet(), schemaVersion: 99 }, 'saved by a newer app version'],
+    ['a bad schemaVersion', { ...v0Worksheet(), schemaVersion: '2' }, 'Invalid schemaVersion'],
+  ])('rejects a worksheet with %s', (_, raw, message) => {
+    expect(() => upgradeWorksheet(raw)).toThrow(RecordValidationError);
+    expect(() => upgradeWorksheet(raw)).toThrow(message);
+  });
+
+  it('rejects a current worksheet whose jobs fail validation', () => {
+    const { record } = upgradeWorksheet(v0Worksheet());
+    const broken = { ...record, jobs: [{ ...record.jobs[0], status: 'lost' }] };
+    expect(() => upgradeWorksheet(broken)).toThrow('Job 1 has an invalid status');
+  });
+
+  it('rejects a status history entry with an unknown status', () => {
+    const { record } = upgradeWorksheet(v0Worksheet());
+    const statusHistory = [{ status: 'lost', at: '2024-05-01T09:00:00.000Z' }];
+    const broken = { ...record, jobs: [{ ...record.jobs[0], statusHistory }] };
+    expect(() => upgradeWorksheet(broken)).toThrow('Job 1 has an invalid status history');
+  });
+});
+
+describe('upgradeMessages', () => {
+  it('attaches v0 messages to the jobs the worksheet migration derives', () => {
+    const { record, migrated } = upgradeMessages({
+      id: '1714550400000',
+      date: '2024-05-01T08:00:00.000Z',
+      messages: ['Hello Mrs Smith', 42],
+    });
+    expect(migrated).toBe(true);
+    expect(record.schemaVersion).toBe(CURRENT_MESSAGES_VERSION);
+    expect(record.messages).toEqual([
+      { jobId: '1714550400000-job-0', text: 'Hello Mrs Smith', phone: '', sentAt: null, sentSnapshot: null },
+      { jobId: '1714550400000-job-1', text: '42', phone: '', sentAt: null, sentSnapshot: null },
+    ]);
+  });
+
+  it('rejects a message with an unreadable sent date', () => {
+    const raw = {
+      id: 'm1',
+      schemaVersion: CURRENT_MESSAGES_VERSION,
+      date: '2024-05-01T08:00:00.000Z',
+      createdAt: '2024-05-01T08:00:00.000Z',
+      dateLabel: 'Wednesday 1 May',
+      messages: [{ jobId: 'a', text: 'Hi', phone: '', sentAt: 'yesterday', sentSnapshot: null }],
+    };
+    expect(() => upgradeMessages(raw)).toThrow('Invalid message 1');
+  });
+});
@@ -0,0 +1,245 @@
+import { JOB_COLUMNS } from './tableExport';
+import { legacyJobId } from './ids';
+import { JOB_STATUSES } from './jobStatus';
+import type { JobData, SavedMessages, WorksheetData } from '../types';
+
+// Saved records carry a schemaVersion. Records written before versioning are treated
+// as version 0. On load, each record is walked up the migration chain and then
+// validated; anything that can't be repaired is quarantined by the repository.
+
+export const CURRENT_WORKSHEET_VERSION = 6;
+export const CURRENT_MESSAGES_VERSION = 4;
+
+export class RecordValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordValidationError';
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a record from version n to n + 1
+type Migration = (record: RawRecord) => RawRecord;
+
+export interface UpgradeResult<T> {
+  record: T;
+  migrated: boolean; // True when the stored copy is out of date and should be rewritten
+}
+
+const isObject = (value: unknown): value is RawRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+
+const isValidDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const labelFromDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'short' });
+
+// Shared v0 -> v1 fix-ups for the fields every saved record has
+const migrateCommonFieldsV0 = (record: RawRecord): RawRecord => {
+  const date = isValidDate(record.date) ? record.date as string
+    : isValidDate(record.createdAt) ? record.createdAt as string
+    : null;
+  if (!date) throw new RecordValidationError('Record has no readable date');
+
+  return {
+    ...record,
+    date,
+    createdAt: isValidDate(record.createdAt) ? record.createdAt : date,
+    dateLabel: asString(record.dateLabel) || labelFromDate(date),
+  };
+};
+
+// The job fields as they stood at v0. Fixed here so that adding columns later doesn't
+// change what this migration does; newer fields get their own migrations.
+const JOB_FIELDS_V0 = [
+  'time', 'address', 'productCode', 'productType', 'productBrand',
+  'fault', 'errorCode', 'productionYear', 'serialNumber',
+] as const;
+
+const migrateJobV0 = (raw: unknown, index: number): RawRecord => {
+  if (!isObject(raw)) throw new RecordValidationError(`Job ${index + 1} is not an object`);
+  const job: RawRecord = { ...raw };
+  JOB_FIELDS_V0.forEach(key => {
+    job[key] = asString(raw[key]);
+  });
+  if (!job.time) job.time = 'TBD';
+  return job;
+};
+
+const WORKSHEET_MIGRATIONS: Migration[] = [
+  // v0 -> v1: fill optional fields and coerce job values to strings
+  (record) => {
+    if (!Array.isArray(record.jobs)) throw new RecordValidationError('Worksheet has no job list');
+
+    const comments: { [key: number]: string } = {};
+    if (isObject(record.comments)) {
+      Object.entries(record.comments).forEach(([key, value]) => {
+        if (/^\d+$/.test(key) && typeof value === 'string') comments[Number(key)] = value;
+      });
+    }
+
+    const timeSlots = Array.isArray(record.timeSlots)
+      ? record.timeSlots.filter(isObject).map(slot => ({ start: asString(slot.start), end: asString(slot.end) }))
+      : [];
+
+    return {
+      ...migrateCommonFieldsV0(record),
+      jobs: record.jobs.map(migrateJobV0),
+      timeSlots,
+      comments,
+    };
+  },
+  // v1 -> v2: give jobs stable IDs and re-key comments and time slots by job ID
+  (record) => {
+    const recordId = record.id as string;
+    const jobs = (record.jobs as RawRecord[]).map((job, index) => ({ ...job, id: legacyJobId(recordId, index) }));
+    const oldComments = record.comments as { [key: number]: string };
+    const oldSlots = record.timeSlots as { start: string; end: string }[];
+
+    const comments: { [jobId: string]: string } = {};
+    const timeSlots: { [jobId: string]: { start: string; end: string } } = {};
+    jobs.forEach((job, index) => {
+      if (oldComments[index]) comments[job.id] = oldComments[index];
+      if (oldSlots[index]) timeSlots[job.id] = oldSlots[index];
+    });
+
+    return { ...record, jobs, comments, timeSlots };
+  },
+  // v2 -> v3: every job starts the day pending
+  (record) => ({
+    ...record,
+    jobs: (record.jobs as RawRecord[]).map(job => ({ ...job, status: 'pending', statusHistory: [] })),
+  }),
+  // v3 -> v4: customer names weren't extracted before
+  (record) => ({
+    ...record,
+    jobs: (record.jobs as RawRecord[]).map(job => ({ ...job, customerName: asString(job.customerName) })),
+  }),
+  // v4 -> v5: nor were phone numbers
+  (record) => ({
+    ...record,
+    jobs: (record.jobs as RawRecord[]).map(job => ({ ...job, customerPhone: asString(job.customerPhone) })),
+  }),
+  // v5 -> v6: the start of day address wasn't saved with the worksheet
+  (record) => ({ ...record, startAddress: '' }),
+];
+
+const MESSAGES_MIGRATIONS: Migration[] = [
+  // v0 -> v1: fill optional fields
+  (record) => ({
+    ...migrateCommonFieldsV0(record),
+    messages: Array.isArray(record.messages) ? record.messages.map(asString) : [],
+  }),
+  // v1 -> v2: attach each message to its job. Messages were saved in job order, and the
+  // worksheet migration derives the same legacy job IDs from the shared record ID.
+  (record) => ({
+    ...record,
+    messages: (record.messages as string[]).map((text, index) => ({
+      jobId: legacyJobId(record.id as string, index),
+      text,
+    })),
+  }),
+  // v2 -> v3: delivery tracking. Older messages have no phone number and were never marked sent.
+  (record) => ({
+    ...record,
+    messages: (record.messages as RawRecord[]).map(message => ({ ...message, phone: '', sentAt: null })),
+  }),
+  // v3 -> v4: what a message was sent about. Unknown for ones already sent, so they're never flagged as changed.
+  (record) => ({
+    ...record,
+    messages: (record.messages as RawRecord[]).map(message => ({ ...message, sentSnapshot: null })),
+  }),
+];
+
+const runMigrations = (raw: unknown, migrations: Migration[], current: number): { record: RawRecord; migrated: boolean } => {
+  if (!isObject(raw)) throw new RecordValidationError('Record is not an object');
+  if (typeof raw.id !== 'string' || !raw.id) throw new RecordValidationError('Record has no id');
+
+  const from = raw.schemaVersion === undefined ? 0 : raw.schemaVersion;
+  if (typeof from !== 'number' || !Number.isInteger(from) || from < 0) {
+    throw new RecordValidationError(`Invalid schemaVersion "${String(raw.schemaVersion)}"`);
+  }
+  if (from > current) {
+    throw new RecordValidationError(`Record was saved by a newer app version (schema ${from})`);
+  }
+
+  let record = raw;
+  for (let version = from; version < current; version++) {
+    record = { ...migrations[version](record), schemaVersion: version + 1 };
+  }
+  return { record, migrated: from !== current };
+};
+
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) throw new RecordValidationError(message);
+};
+
+const SNAPSHOT_FIELDS = ['customerName', 'productBrand', 'productType', 'fault', 'timeSlot'];
+
+const isSnapshot = (value: unknown) =>
+  value === null || (isObject(value) && SNAPSHOT_FIELDS.every(key => typeof value[key] === 'string'));
+
+const validateCommonFields = (record: RawRecord) => {
+  assert(isValidDate(record.date), 'Invalid date');
+  assert(isValidDate(record.createdAt), 'Invalid createdAt');
+  assert(typeof record.dateLabel === 'string', 'Invalid dateLabel');
+};
+
+const validateJob = (job: unknown, index: number): JobData => {
+  assert(isObject(job), `Job ${index + 1} is not an object`);
+  assert(typeof (job as RawRecord).id === 'string' && (job as RawRecord).id, `Job ${index + 1} has no id`);
+  JOB_COLUMNS.forEach(({ key }) => assert(typeof (job as RawRecord)[key] === 'string', `Job ${index + 1} has an invalid ${key}`));
+  const { status, statusHistory } = job as RawRecord;
+  assert(JOB_STATUSES.some(s => s.value === status), `Job ${index + 1} has an invalid status`);
+  assert(
+    Array.isArray(statusHistory) && statusHistory.every(change =>
+      isObject(change) && JOB_STATUSES.some(s => s.value === change.status) && isValidDate(change.at)),
+    `Job ${index + 1} has an invalid status history`,
+  );
+  return job as unknown as JobData;
+};
+
+export const validateWorksheet = (record: RawRecord): WorksheetData => {
+  validateCommonFields(record);
+  assert(Array.isArray(record.jobs), 'Invalid job list');
+  const jobs = (record.jobs as unknown[]).map(validateJob);
+  assert(new Set(jobs.map(job => job.id)).size === jobs.length, 'Duplicate job ids');
+  assert(isObject(record.timeSlots), 'Invalid time slots');
+  Object.values(record.timeSlots as RawRecord).forEach(slot => {
+    assert(isObject(slot) && typeof slot.start === 'string' && typeof slot.end === 'string', 'Invalid time slot');
+  });
+  assert(typeof record.startAddress === 'string', 'Invalid start address');
+  assert(isObject(record.comments), 'Invalid comments');
+  Object.values(record.comments as RawRecord).forEach(comment => assert(typeof comment === 'string', 'Invalid comment'));
+  return record as unknown as WorksheetData;
+};
+
+export const validateMessages = (record: RawRecord): SavedMessages => {
+  validateCommonFields(record);
+  assert(Array.isArray(record.messages), 'Invalid messages');
+  (record.messages as unknown[]).forEach((message, index) => {
+    assert(
+      isObject(message) && typeof message.jobId === 'string' && typeof message.text === 'string'
+        && typeof message.phone === 'string' && (message.sentAt === null || isValidDate(message.sentAt))
+        && isSnapshot(message.sentSnapshot),
+      `Invalid message ${index + 1}`,
+    );
+  });
+  return record as unknown as SavedMessages;
+};
+
+/** Brings a stored worksheet up to the current schema, throwing RecordValidationError if it can't be repaired. */
+export const upgradeWorksheet = (raw: unknown): UpgradeResult<WorksheetData> => {
+  const { record, migrated } = runMigrations(raw, WORKSHEET_MIGRATIONS, CURRENT_WORKSHEET_VERSION);
+  return { record: validateWorksheet(record), migrated };
+};
+
+/** Brings a stored message set up to the current schema, throwing RecordValidationError if it can't be repaired. */
+export const upgradeMessages = (raw: unknown): UpgradeResult<SavedMessages> => {
+  const { record, migrated } = runMigrations(raw, MESSAGES_MIGRATIONS, CURRENT_MESSAGES_VERSION);
+  return { record: validateMessages(record), migrated };
+};
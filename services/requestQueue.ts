@@ -0,0 +1,22 @@
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs tasks one after another, starting each at least `minIntervalMs` after the
+ * previous one started. Used to keep within public APIs' rate limits.
+ */
+export const createThrottledQueue = (minIntervalMs: number) => {
+  let tail: Promise<unknown> = Promise.resolve();
+  let lastStart = 0;
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(async () => {
+      const wait = lastStart + minIntervalMs - Date.now();
+      if (wait > 0) await sleep(wait);
+      lastStart = Date.now();
+      return task();
+    });
+    // A failed task mustn't stall everything queued behind it
+    tail = result.catch(() => undefined);
+    return result;
+  };
+};
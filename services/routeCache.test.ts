@@ -0,0 +1,97 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fresh module state (session stats, in-flight lookups, the once-per-session purge) for
+// each test. The database itself is shared, so every test uses its own keys.
+const loadModules = async () => {
+  vi.resetModules();
+  const cache = await import('./routeCache');
+  const { routeCacheRepository } = await import('./storage');
+  return { ...cache, routeCacheRepository };
+};
+
+const entry = (id: string, value: unknown, expiresInMs: number) => {
+  const now = new Date();
+  return {
+    id,
+    value,
+    date: now.toISOString(),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + expiresInMs).toISOString(),
+  };
+};
+
+describe('withRouteCache', () => {
+  it('looks a value up once and serves it from the cache afterwards', async () => {
+    const { withRouteCache, getRouteCacheStats } = await loadModules();
+    const load = vi.fn(async () => ({ lat: 51.5, lon: -0.1 }));
+
+    expect(await withRouteCache('test:found', DAY_MS, load)).toEqual({ lat: 51.5, lon: -0.1 });
+    expect(await withRouteCache('test:found', DAY_MS, load)).toEqual({ lat: 51.5, lon: -0.1 });
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(getRouteCacheStats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('remembers a not-found answer for its own, shorter time', async () => {
+    const { withRouteCache, routeCacheRepository } = await loadModules();
+    const load = vi.fn(async () => null);
+
+    expect(await withRouteCache('test:missing', 30 * DAY_MS, load, { notFoundTtlMs: DAY_MS })).toBeNull();
+    expect(await withRouteCache('test:missing', 30 * DAY_MS, load, { notFoundTtlMs: DAY_MS })).toBeNull();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    const stored = await routeCacheRepository.get('test:missing');
+    expect(stored?.value).toBeNull();
+    const ttl = new Date(stored!.expiresAt).getTime() - new Date(stored!.createdAt!).getTime();
+    expect(ttl).toBe(DAY_MS);
+  });
+
+  it('does not store null answers unless asked to', async () => {
+    const { withRouteCache } = await loadModules();
+    const load = vi.fn(async () => null);
+    await withRouteCache('test:no-route', DAY_MS, load);
+    await withRouteCache('test:no-route', DAY_MS, load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips results shouldCache rejects, and never caches errors', async () => {
+    const { withRouteCache } = await loadModules();
+    const estimate = vi.fn(async () => ({ approximate: true }));
+    const options = { shouldCache: (value: { approximate: boolean }) => !value.approximate };
+    await withRouteCache('test:estimate', DAY_MS, estimate, options);
+    await withRouteCache('test:estimate', DAY_MS, estimate, options);
+    expect(estimate).toHaveBeenCalledTimes(2);
+
+    const failing = vi.fn(async () => {
+      throw new Error('offline');
+    });
+    await expect(withRouteCache('test:failing', DAY_MS, failing, { notFoundTtlMs: DAY_MS })).rejects.toThrow('offline');
+    await expect(withRouteCache('test:failing', DAY_MS, failing, { notFoundTtlMs: DAY_MS })).rejects.toThrow('offline');
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one lookup between concurrent requests for a key', async () => {
+    const { withRouteCache } = await loadModules();
+    const load = vi.fn(async () => 'value');
+    const results = await Promise.all([
+      withRouteCache('test:shared', DAY_MS, load),
+      withRouteCache('test:shared', DAY_MS, load),
+    ]);
+    expect(results).toEqual(['value', 'value']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores and purges expired entries on the first lookup of a session', async () => {
+    const { withRouteCache, routeCacheRepository } = await loadModules();
+    await routeCacheRepository.save(entry('test:expired', 'stale', -1000));
+    await routeCacheRepository.save(entry('test:unrelated-expired', 'stale', -1000));
+    await routeCacheRepository.save(entry('test:fresh', 'fresh', DAY_MS));
+
+    const load = vi.fn(async () => 'renewed');
+    expect(await withRouteCache('test:expired', DAY_MS, load)).toBe('renewed');
+    expect(await routeCacheRepository.get('test:unrelated-expired')).toBeNull();
+    expect((await routeCacheRepository.get('test:fresh'))?.value).toBe('fresh');
+  });
+});
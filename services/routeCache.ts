@@ -0,0 +1,125 @@
+import { routeCacheRepository } from './storage';
+
+// Persistent cache in front of the routing providers. Re-opening a schedule shouldn't
+// repeat lookups we already made, and concurrent requests for the same key (several
+// travel connectors sharing an address) share one in-flight lookup.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const GEOCODE_TTL_MS = 30 * DAY_MS; // Addresses don't move
+export const GEOCODE_NOT_FOUND_TTL_MS = DAY_MS; // Retried sooner, as the address may have been mistyped or newly built
+export const ROUTE_TTL_MS = 7 * DAY_MS; // Road networks and speed data do change
+
+export interface RouteCacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Counted since the app was opened
+const stats: RouteCacheStats = { hits: 0, misses: 0 };
+const statsListeners = new Set<() => void>();
+const inFlight = new Map<string, Promise<unknown>>();
+let expiredPurge: Promise<void> | null = null;
+
+const recordLookup = (hit: boolean) => {
+  if (hit) stats.hits++;
+  else stats.misses++;
+  statsListeners.forEach(listener => listener());
+};
+
+export const getRouteCacheStats = (): RouteCacheStats => ({ ...stats });
+
+export const subscribeRouteCacheStats = (listener: () => void): (() => void) => {
+  statsListeners.add(listener);
+  return () => {
+    statsListeners.delete(listener);
+  };
+};
+
+/** Lower-cased with whitespace collapsed, so trivially different spellings share an entry. */
+export const normaliseCacheKey = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Entries nobody asks for again would otherwise stay forever, so the first lookup of
+// each session clears out everything past its expiry
+const purgeExpiredEntries = () => {
+  expiredPurge ??= routeCacheRepository.deleteExpired()
+    .then(() => undefined)
+    .catch(e => console.warn('Route cache purge failed:', e));
+  return expiredPurge;
+};
+
+// Undefined on a miss; a hit's value may be null, for a lookup that found nothing
+const readEntry = async <T>(key: string): Promise<{ value: T | null } | undefined> => {
+  try {
+    const entry = await routeCacheRepository.get(key);
+    if (!entry) return undefined;
+    if (new Date(entry.expiresAt).getTime() <= Date.now()) {
+      routeCacheRepository.delete(key).catch(e => console.warn('Route cache delete failed:', e));
+      return undefined;
+    }
+    return { value: entry.value as T | null };
+  } catch (e) {
+    // The cache is an optimisation; a broken database just means going to the network
+    console.warn('Route cache read failed:', e);
+    return undefined;
+  }
+};
+
+const writeEntry = async (key: string, value: unknown, ttlMs: number) => {
+  const now = new Date();
+  try {
+    await routeCacheRepository.save({
+      id: key,
+      value,
+      date: now.toISOString(),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+    });
+  } catch (e) {
+    console.warn('Route cache write failed:', e);
+  }
+};
+
+export interface RouteCacheOptions<T> {
+  shouldCache?: (value: T) => boolean; // Results it rejects are returned but not stored
+  notFoundTtlMs?: number; // How long to remember a null result; by default nulls aren't stored
+}
+
+/**
+ * Returns the cached value for `key`, or runs `load` and caches its result. Errors from
+ * `load` are never cached, so an unreachable provider is simply asked again next time.
+ */
+export const withRouteCache = <T>(
+  key: string,
+  ttlMs: number,
+  load: () => Promise<T | null>,
+  { shouldCache = () => true, notFoundTtlMs }: RouteCacheOptions<T> = {},
+): Promise<T | null> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T | null>;
+
+  const lookup = (async () => {
+    await purgeExpiredEntries();
+    const cached = await readEntry<T>(key);
+    recordLookup(cached !== undefined);
+    if (cached) return cached.value;
+
+    const value = await load();
+    if (value === null) {
+      if (notFoundTtlMs) await writeEntry(key, null, notFoundTtlMs);
+    } else if (shouldCache(value)) {
+      await writeEntry(key, value, ttlMs);
+    }
+    return value;
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, lookup);
+  return lookup;
+};
+
+export const clearRouteCache = async () => {
+  await routeCacheRepository.clear();
+  stats.hits = 0;
+  stats.misses = 0;
+  statsListeners.forEach(listener => listener());
+};
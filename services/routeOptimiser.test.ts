@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { optimiseRoute } from './routeOptimiser';
+
+// Start at node 0, jobs at 1..3. Visiting in the given order doubles back; 0 -> 2 -> 1 -> 3 doesn't.
+const matrix = [
+  [0, 1200, 300, 2400],
+  [1200, 0, 600, 900],
+  [300, 600, 0, 1800],
+  [2400, 900, 1800, 0],
+];
+
+describe('optimiseRoute', () => {
+  it('suggests a shorter order with the drive into each job along it', () => {
+    const result = optimiseRoute(matrix);
+    expect(result.order).toEqual([1, 0, 2]);
+    expect(result.beforeSeconds).toBe(1200 + 600 + 1800);
+    expect(result.afterSeconds).toBe(300 + 600 + 900);
+    expect(result.travelMinutes).toEqual([5, 10, 15]);
+  });
+
+  it('keeps the given order when nothing is shorter', () => {
+    const result = optimiseRoute([[0, 60, 120], [60, 0, 60], [120, 60, 0]]);
+    expect(result.order).toEqual([0, 1]);
+    expect(result.afterSeconds).toBe(result.beforeSeconds);
+  });
+
+  it('routes around an unreachable leg and leaves its drive time unknown', () => {
+    const unreachable = [
+      [0, 600, 600],
+      [600, 0, Infinity],
+      [600, 600, 0],
+    ];
+    const result = optimiseRoute(unreachable);
+    expect(result.beforeSeconds).toBe(Infinity);
+    expect(result.order).toEqual([1, 0]);
+    expect(result.afterSeconds).toBe(1200);
+
+    const allUnreachable = optimiseRoute([[0, Infinity, 600], [Infinity, 0, Infinity], [600, Infinity, 0]]);
+    expect(allUnreachable.travelMinutes).toContain(null);
+  });
+});
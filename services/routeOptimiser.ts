@@ -0,0 +1,94 @@
+// Job ordering for a single day. The travel matrix has the start of day at index 0
+// and jobs at 1..n. Routes are open paths: the day ends at the last job, so the drive
+// home isn't counted.
+
+export interface RouteOptimisation {
+  order: number[]; // Job indices (0-based, matching the jobs array) in the suggested visiting order
+  beforeSeconds: number; // Infinity when some leg has no route
+  afterSeconds: number;
+  travelMinutes: (number | null)[]; // Drive into each job in the suggested order; null where no route was found
+}
+
+/** Total drive time for visiting matrix nodes in `path` order, starting from node 0. */
+export const pathDuration = (path: number[], matrix: number[][]): number => {
+  let total = 0;
+  let from = 0;
+  for (const to of path) {
+    total += matrix[from][to];
+    from = to;
+  }
+  return total;
+};
+
+export const nearestNeighbourPath = (matrix: number[][]): number[] => {
+  const remaining = new Set(matrix.map((_, i) => i).slice(1));
+  const path: number[] = [];
+  let current = 0;
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestCost = Infinity;
+    remaining.forEach(candidate => {
+      const cost = matrix[current][candidate];
+      if (best === -1 || cost < bestCost) {
+        best = candidate;
+        bestCost = cost;
+      }
+    });
+    path.push(best);
+    remaining.delete(best);
+    current = best;
+  }
+  return path;
+};
+
+/**
+ * Repeatedly reverses segments of the path while that shortens it. OSRM durations
+ * aren't symmetric, so each candidate is costed in full rather than by edge deltas;
+ * a day's worth of jobs keeps that cheap.
+ */
+export const twoOpt = (path: number[], matrix: number[][]): number[] => {
+  let best = [...path];
+  let bestCost = pathDuration(best, matrix);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const cost = pathDuration(candidate, matrix);
+        if (cost + 1e-6 < bestCost) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+/** Suggests a visiting order with nearest-neighbour construction plus 2-opt improvement. */
+export const optimiseRoute = (matrix: number[][]): RouteOptimisation => {
+  const current = matrix.map((_, i) => i).slice(1);
+  const beforeSeconds = pathDuration(current, matrix);
+
+  let suggested = twoOpt(nearestNeighbourPath(matrix), matrix);
+  let afterSeconds = pathDuration(suggested, matrix);
+
+  // Never suggest something worse than the order we were given
+  if (afterSeconds >= beforeSeconds) {
+    suggested = current;
+    afterSeconds = beforeSeconds;
+  }
+
+  return {
+    order: suggested.map(node => node - 1),
+    beforeSeconds,
+    afterSeconds,
+    travelMinutes: suggested.map((node, i) => {
+      const seconds = matrix[i === 0 ? 0 : suggested[i - 1]][node];
+      return Number.isFinite(seconds) ? Math.round(seconds / 60) : null;
+    }),
+  };
+};
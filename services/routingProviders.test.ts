@@ -0,0 +1,150 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  createFallbackChain,
+  createOfflineProvider,
+  createOsrmProvider,
+  haversineMeters,
+  RoutingUnavailableError,
+  type LatLon,
+  type RoutingProvider,
+} from './routingProviders';
+
+const LONDON: LatLon = { lat: 51.5074, lon: -0.1278 };
+const OXFORD: LatLon = { lat: 51.752, lon: -1.2577 };
+const READING: LatLon = { lat: 51.4543, lon: -0.9781 };
+
+// Stands in for an OSRM server. Answers depend on the path, so each test can pick its case.
+let server: Server;
+let baseUrl: string;
+const requests: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = req.url ?? '';
+    requests.push(url);
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.startsWith('/broken/')) return send(503, { message: 'Service unavailable' });
+    if (url.startsWith('/route/v1/driving/') && url.includes('geometries=geojson')) {
+      return send(200, { code: 'Ok', routes: [{ geometry: { coordinates: [[-0.1278, 51.5074], [-0.5, 51.6], [-1.2577, 51.752]] } }] });
+    }
+    if (url.startsWith('/route/v1/driving/0,0;')) return send(200, { code: 'NoRoute', routes: [] });
+    if (url.startsWith('/route/v1/driving/')) return send(200, { code: 'Ok', routes: [{ duration: 4200, distance: 90000 }] });
+    if (url.startsWith('/table/v1/driving/')) {
+      return send(200, { code: 'Ok', durations: [[0, 4200, 2400], [4100, 0, null], [2500, 2900, 0]] });
+    }
+    send(404, { message: 'Unknown path' });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('createOsrmProvider', () => {
+  it('reads a route leg', async () => {
+    const provider = createOsrmProvider('test', 'Test OSRM', `${baseUrl}/`);
+    expect(await provider.route(LONDON, OXFORD)).toEqual({ durationSeconds: 4200, distanceMeters: 90000 });
+    expect(requests.at(-1)).toBe('/route/v1/driving/-0.1278,51.5074;-1.2577,51.752?overview=false');
+  });
+
+  it('answers null when there is no road route', async () => {
+    const provider = createOsrmProvider('test', 'Test OSRM', baseUrl);
+    expect(await provider.route({ lat: 0, lon: 0 }, OXFORD)).toBeNull();
+  });
+
+  it('builds a travel matrix with unreachable pairs as Infinity', async () => {
+    const provider = createOsrmProvider('test', 'Test OSRM', baseUrl);
+    expect(await provider.table!([LONDON, OXFORD, READING])).toEqual([
+      [0, 4200, 2400],
+      [4100, 0, Infinity],
+      [2500, 2900, 0],
+    ]);
+  });
+
+  it('turns GeoJSON coordinates into points', async () => {
+    const provider = createOsrmProvider('test', 'Test OSRM', baseUrl);
+    const geometry = await provider.routeGeometry!([LONDON, OXFORD]);
+    expect(geometry?.points).toEqual([LONDON, { lat: 51.6, lon: -0.5 }, OXFORD]);
+  });
+
+  it('throws when the server fails, so the chain moves on', async () => {
+    const provider = createOsrmProvider('test', 'Test OSRM', `${baseUrl}/broken`);
+    await expect(provider.route(LONDON, OXFORD)).rejects.toThrow('returned 503');
+    await expect(provider.table!([LONDON, OXFORD])).rejects.toThrow('returned 503');
+  });
+});
+
+describe('createOfflineProvider', () => {
+  const offline = createOfflineProvider(30);
+
+  it('estimates drive time from road-adjusted straight-line distance', async () => {
+    const leg = await offline.route(LONDON, OXFORD);
+    const expectedMeters = haversineMeters(LONDON, OXFORD) * 1.3;
+    expect(leg?.approximate).toBe(true);
+    expect(leg?.distanceMeters).toBeCloseTo(expectedMeters);
+    expect(leg?.durationSeconds).toBeCloseTo(expectedMeters / ((30 * 1609.344) / 3600));
+  });
+
+  it('reports itself unavailable for address lookups', async () => {
+    await expect(offline.geocode('OX1 1AA')).rejects.toThrow('needs a network connection');
+    await expect(offline.reverseGeocode(LONDON)).rejects.toThrow('needs a network connection');
+  });
+});
+
+describe('createFallbackChain', () => {
+  const failing = (name: string): RoutingProvider => ({
+    id: name,
+    name,
+    geocode: () => Promise.reject(new Error('offline')),
+    reverseGeocode: () => Promise.reject(new Error('offline')),
+    route: () => Promise.reject(new Error('offline')),
+  });
+  const notFound: RoutingProvider = {
+    id: 'empty',
+    name: 'Empty',
+    geocode: async () => null,
+    reverseGeocode: async () => null,
+    route: async () => null,
+  };
+
+  beforeAll(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('falls back from a failing server to the offline estimate', async () => {
+    const chain = createFallbackChain([
+      createOsrmProvider('broken', 'Broken OSRM', `${baseUrl}/broken`),
+      createOfflineProvider(30),
+    ]);
+    expect((await chain.route(LONDON, OXFORD))?.approximate).toBe(true);
+    expect((await chain.routeGeometry([LONDON, OXFORD]))?.approximate).toBe(true);
+    expect(await chain.table([LONDON, OXFORD])).toHaveLength(2);
+  });
+
+  it('resolves null when a provider answered but found nothing', async () => {
+    const chain = createFallbackChain([failing('first'), notFound]);
+    expect(await chain.geocode('Nowhere')).toBeNull();
+  });
+
+  it('throws RoutingUnavailableError when no provider could be reached', async () => {
+    const chain = createFallbackChain([failing('first'), createOfflineProvider(30)]);
+    await expect(chain.geocode('OX1 1AA')).rejects.toBeInstanceOf(RoutingUnavailableError);
+  });
+
+  it('throws RoutingUnavailableError when no provider offers a method', async () => {
+    const chain = createFallbackChain([notFound]);
+    await expect(chain.table([LONDON, OXFORD])).rejects.toBeInstanceOf(RoutingUnavailableError);
+    await expect(chain.routeGeometry([LONDON, OXFORD])).rejects.toBeInstanceOf(RoutingUnavailableError);
+  });
+});
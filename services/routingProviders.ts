@@ -0,0 +1,221 @@
+import type { RoutingProviderId, RoutingSettings } from './settings';
+import { createThrottledQueue } from './requestQueue';
+
+// Geocoding and routing backends. Methods resolve to null when the provider answered
+// but has nothing useful (address not found, no road route) and throw when the
+// provider itself is unavailable. Either way the fallback chain moves on to the next one.
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export interface RouteLeg {
+  durationSeconds: number;
+  distanceMeters: number;
+  approximate?: boolean; // Estimated without a road network
+}
+
+export interface RouteGeometry {
+  points: LatLon[]; // Path to draw, through every stop in order
+  approximate?: boolean; // Straight lines between stops rather than roads
+}
+
+export interface RoutingProvider {
+  id: string;
+  name: string;
+  geocode(query: string): Promise<LatLon | null>;
+  reverseGeocode(point: LatLon): Promise<string | null>;
+  route(from: LatLon, to: LatLon): Promise<RouteLeg | null>;
+  /** Durations in seconds between every pair of points; durations[i][j] is i -> j. */
+  table?(points: LatLon[]): Promise<number[][]>;
+  /** The road path visiting `stops` in order, for drawing on a map. */
+  routeGeometry?(stops: LatLon[]): Promise<RouteGeometry | null>;
+}
+
+/** Thrown by a fallback chain when every provider failed, rather than answering "not found". */
+export class RoutingUnavailableError extends Error {
+  constructor(public readonly method: string) {
+    super(`No routing provider could be reached for ${method}`);
+    this.name = 'RoutingUnavailableError';
+  }
+}
+
+/** A provider chain, which always offers every method even if no provider in it can answer. */
+export type RoutingChain = Required<RoutingProvider>;
+
+export const PUBLIC_OSRM_URL = 'https://router.project-osrm.org';
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const NOMINATIM_HEADERS = { 'User-Agent': 'FieldServiceAssistant/1.0' };
+
+// Nominatim's usage policy allows at most one request per second
+const nominatimQueue = createThrottledQueue(1100);
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, init);
+  if (!response.ok) throw new Error(`${new URL(url).host} returned ${response.status}`);
+  return response.json();
+};
+
+const nominatimGeocode = async (query: string): Promise<LatLon | null> => {
+  const data = await nominatimQueue(() => fetchJson(`${NOMINATIM_URL}/search?format=json&q=${encodeURIComponent(query)}&limit=1`, {
+    headers: NOMINATIM_HEADERS,
+  }));
+  if (!Array.isArray(data) || data.length === 0) return null;
+  return { lat: parseFloat(data[0].lat), lon: parseFloat(data[0].lon) };
+};
+
+const nominatimReverseGeocode = async ({ lat, lon }: LatLon): Promise<string | null> => {
+  const data = await nominatimQueue(() => fetchJson(`${NOMINATIM_URL}/reverse?format=json&lat=${lat}&lon=${lon}&zoom=18&addressdetails=1`, {
+    headers: NOMINATIM_HEADERS,
+  }));
+  const addr = data.address || {};
+  const parts = [
+    addr.road || addr.pedestrian,
+    addr.house_number,
+    addr.city || addr.town || addr.village,
+    addr.postcode,
+  ].filter(Boolean);
+  return parts.join(', ') || data.display_name || null;
+};
+
+/** Nominatim for addresses and an OSRM server for roads. */
+export const createOsrmProvider = (id: string, name: string, baseUrl: string): RoutingProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const coords = (points: LatLon[]) => points.map(p => `${p.lon},${p.lat}`).join(';');
+
+  return {
+    id,
+    name,
+    geocode: nominatimGeocode,
+    reverseGeocode: nominatimReverseGeocode,
+
+    async route(from, to) {
+      const data = await fetchJson(`${root}/route/v1/driving/${coords([from, to])}?overview=false`);
+      const route = data.routes?.[0];
+      return route ? { durationSeconds: route.duration, distanceMeters: route.distance } : null;
+    },
+
+    async table(points) {
+      const data = await fetchJson(`${root}/table/v1/driving/${coords(points)}?annotations=duration`);
+      if (data.code !== 'Ok' || !Array.isArray(data.durations)) {
+        throw new Error(`${name} could not build a travel matrix`);
+      }
+      // Unreachable pairs come back as null
+      return data.durations.map((row: (number | null)[]) => row.map(d => d ?? Infinity));
+    },
+
+    async routeGeometry(stops) {
+      const data = await fetchJson(`${root}/route/v1/driving/${coords(stops)}?overview=full&geometries=geojson`);
+      const coordinates: [number, number][] | undefined = data.routes?.[0]?.geometry?.coordinates;
+      return coordinates ? { points: coordinates.map(([lon, lat]) => ({ lat, lon })) } : null;
+    },
+  };
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_MILE = 1609.344;
+// Roads are rarely straight; this is a typical ratio of road to crow-flies distance
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+export const haversineMeters = (a: LatLon, b: LatLon): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Works with no network at all: straight-line distance scaled up to approximate roads,
+ * driven at a fixed average speed. Can't turn addresses into coordinates, so it reports
+ * itself unavailable for those and only cached addresses can be routed offline.
+ */
+export const createOfflineProvider = (averageSpeedMph: number): RoutingProvider => {
+  const metersPerSecond = (Math.max(1, averageSpeedMph) * METERS_PER_MILE) / 3600;
+  const estimate = (from: LatLon, to: LatLon): RouteLeg => {
+    const distanceMeters = haversineMeters(from, to) * ROAD_DISTANCE_FACTOR;
+    return { distanceMeters, durationSeconds: distanceMeters / metersPerSecond, approximate: true };
+  };
+
+  return {
+    id: 'offline',
+    name: 'Offline estimate',
+    geocode: async () => {
+      throw new Error('Locating an address needs a network connection');
+    },
+    reverseGeocode: async () => {
+      throw new Error('Looking up an address needs a network connection');
+    },
+    route: async (from, to) => estimate(from, to),
+    table: async (points) => points.map(from => points.map(to => estimate(from, to).durationSeconds)),
+    routeGeometry: async (stops) => ({ points: stops, approximate: true }),
+  };
+};
+
+/**
+ * Tries each provider in turn, returning the first usable answer. Resolves to null when
+ * a provider answered but none had a result, and throws RoutingUnavailableError when
+ * every provider that offers the method failed.
+ */
+export const createFallbackChain = (providers: RoutingProvider[]): RoutingChain => {
+  const firstResult = async <T>(
+    method: string,
+    call: (provider: RoutingProvider) => Promise<T | null> | null,
+  ): Promise<T | null> => {
+    let answered = false;
+    for (const provider of providers) {
+      const pending = call(provider);
+      if (pending === null) continue; // The provider doesn't offer this method
+      try {
+        const result = await pending;
+        if (result !== null) return result;
+        answered = true;
+      } catch (e) {
+        console.warn(`${provider.name} ${method} failed, trying next provider`, e);
+      }
+    }
+    if (!answered) throw new RoutingUnavailableError(method);
+    return null;
+  };
+
+  return {
+    id: 'chain',
+    name: providers.map(p => p.name).join(' → '),
+    geocode: (query) => firstResult('geocode', p => p.geocode(query)),
+    reverseGeocode: (point) => firstResult('reverseGeocode', p => p.reverseGeocode(point)),
+    route: (from, to) => firstResult('route', p => p.route(from, to)),
+    async table(points) {
+      const matrix = await firstResult('table', p => (p.table ? p.table(points) : null));
+      if (!matrix) throw new RoutingUnavailableError('table');
+      return matrix;
+    },
+    routeGeometry: (stops) => firstResult('routeGeometry', p => (p.routeGeometry ? p.routeGeometry(stops) : null)),
+  };
+};
+
+export const ROUTING_PROVIDER_LABELS: Record<RoutingProviderId, string> = {
+  public: 'OpenStreetMap (Nominatim + public OSRM)',
+  'self-hosted': 'Self-hosted OSRM',
+  offline: 'Offline estimate',
+};
+
+/** The enabled providers from Settings, in the user's order. */
+export const createProviderChain = (settings: RoutingSettings): RoutingChain => {
+  const providers = settings.providers
+    .filter(p => p.enabled)
+    .map(({ id }): RoutingProvider | null => {
+      switch (id) {
+        case 'public':
+          return createOsrmProvider(id, ROUTING_PROVIDER_LABELS[id], PUBLIC_OSRM_URL);
+        case 'self-hosted':
+          return settings.osrmUrl ? createOsrmProvider(id, ROUTING_PROVIDER_LABELS[id], settings.osrmUrl) : null;
+        case 'offline':
+          return createOfflineProvider(settings.averageSpeedMph);
+        default:
+          return null;
+      }
+    })
+    .filter((p): p is RoutingProvider => p !== null);
+  return createFallbackChain(providers);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getGoogleMapsDayUrls, GOOGLE_MAPS_MAX_WAYPOINTS } from './routingService';
+
+const params = (url: string) => Object.fromEntries(new URL(url).searchParams);
+const addresses = (count: number) => Array.from({ length: count }, (_, i) => `${i + 1} High St`);
+
+describe('getGoogleMapsDayUrls', () => {
+  it('routes a short day through one link, from the current location without an origin', () => {
+    const [url, ...rest] = getGoogleMapsDayUrls(addresses(3));
+
+    expect(rest).toEqual([]);
+    expect(url.startsWith('https://www.google.com/maps/dir/?')).toBe(true);
+    expect(params(url)).toEqual({
+      api: '1',
+      destination: '3 High St',
+      waypoints: '1 High St|2 High St',
+      travelmode: 'driving',
+    });
+  });
+
+  it('starts from the start address when given', () => {
+    const [url] = getGoogleMapsDayUrls(['1 High St'], 'Depot\nUnit 4');
+
+    expect(params(url).origin).toBe('Depot, Unit 4');
+    expect(params(url).destination).toBe('1 High St');
+    expect(params(url).waypoints).toBeUndefined();
+  });
+
+  it('splits a long day into links that each start where the last one ended', () => {
+    const perLink = GOOGLE_MAPS_MAX_WAYPOINTS + 1;
+    const urls = getGoogleMapsDayUrls(addresses(perLink * 2 + 1), 'Depot').map(params);
+
+    expect(urls).toHaveLength(3);
+    expect(urls[0].origin).toBe('Depot');
+    expect(urls[0].waypoints.split('|')).toEqual(addresses(perLink - 1));
+    expect(urls[0].destination).toBe(`${perLink} High St`);
+    expect(urls[1].origin).toBe(`${perLink} High St`);
+    expect(urls[1].waypoints.split('|')).toHaveLength(GOOGLE_MAPS_MAX_WAYPOINTS);
+    expect(urls[1].destination).toBe(`${perLink * 2} High St`);
+    expect(urls[2]).toEqual({ api: '1', origin: `${perLink * 2} High St`, destination: `${perLink * 2 + 1} High St`, travelmode: 'driving' });
+  });
+
+  it('fills a link exactly without an empty one after it', () => {
+    expect(getGoogleMapsDayUrls(addresses(GOOGLE_MAPS_MAX_WAYPOINTS + 1))).toHaveLength(1);
+  });
+
+  it('skips blank addresses and returns no links for none', () => {
+    expect(getGoogleMapsDayUrls([])).toEqual([]);
+    expect(params(getGoogleMapsDayUrls(['', '1 High St', '  '])[0])).toEqual({
+      api: '1',
+      destination: '1 High St',
+      travelmode: 'driving',
+    });
+  });
+});
@@ -1,9 +1,27 @@
+import {
+  createProviderChain,
+  RoutingUnavailableError,
+  type LatLon,
+  type RouteGeometry,
+  type RoutingChain,
+} from './routingProviders';
+import { loadRoutingSettings } from './settings';
+import { GEOCODE_NOT_FOUND_TTL_MS, GEOCODE_TTL_MS, normaliseCacheKey, ROUTE_TTL_MS, withRouteCache } from './routeCache';
+
+export type { LatLon, RouteGeometry } from './routingProviders';
+export { RoutingUnavailableError } from './routingProviders';
+
 export interface RouteResult {
+  durationSeconds: number;
   durationText: string; // e.g., "15 mins"
   distanceText: string; // e.g., "4 miles"
   googleMapsUrl: string;
+  approximate?: boolean; // From the offline estimate rather than a road network
 }
 
+// Rebuilt per call so changes in Settings apply straight away
+const routing = (): RoutingChain => createProviderChain(loadRoutingSettings());
+
 // Regex for UK Postcodes (Standard formats)
 const UK_POSTCODE_REGEX = /([Gg][Ii][Rr] 0[Aa]{2})|((([A-Za-z][0-9]{1,2})|(([A-Za-z][A-Ha-hJ-Yj-y][0-9]{1,2})|(([A-Za-z][0-9][A-Za-z])|([A-Za-z][A-Ha-hJ-Yj-y][0-9][A-Za-z]?))))\s?[0-9][A-Za-z]{2})/i;
 
@@ -33,72 +51,129 @@ export const getGoogleMapsUrl = (origin: string, destination: string) => {
   return `https://www.google.com/maps/dir/?api=1&origin=${o}&destination=${d}`;
 };
 
-async function geocode(address: string): Promise<{ lat: number; lon: number } | null> {
-  try {
-    const query = encodeURIComponent(cleanAddressForGeocode(address));
-    
-    // Skip empty queries
-    if (!query || query.length < 3) return null;
-
-    // Using Nominatim (OpenStreetMap) - Requires User-Agent
-    const response = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${query}&limit=1`, {
-      headers: { 'User-Agent': 'FieldServiceAssistant/1.0' }
-    });
-    
-    if (!response.ok) return null;
-
-    const data = await response.json();
-    if (data && data.length > 0) {
-      return { lat: parseFloat(data[0].lat), lon: parseFloat(data[0].lon) };
-    }
-    return null;
-  } catch (e) {
-    console.warn('Geocoding failed for:', address, e);
-    return null;
+// Google Maps directions URLs accept at most this many intermediate stops
+export const GOOGLE_MAPS_MAX_WAYPOINTS = 9;
+
+/**
+ * Directions through every stop in order, starting from `origin` or, without one, the
+ * phone's current location. Days with more stops than one link can hold are split into
+ * several links, each starting where the previous one ended.
+ */
+export const getGoogleMapsDayUrls = (stops: string[], origin?: string): string[] => {
+  const destinations = stops.map(cleanAddressForUrl).filter(Boolean);
+  const perLink = GOOGLE_MAPS_MAX_WAYPOINTS + 1; // Waypoints plus the destination
+  const urls: string[] = [];
+  let from = origin ? cleanAddressForUrl(origin) : '';
+
+  for (let i = 0; i < destinations.length; i += perLink) {
+    const chunk = destinations.slice(i, i + perLink);
+    const destination = chunk[chunk.length - 1];
+    const params = new URLSearchParams({ api: '1' });
+    if (from) params.set('origin', from);
+    params.set('destination', destination);
+    if (chunk.length > 1) params.set('waypoints', chunk.slice(0, -1).join('|'));
+    params.set('travelmode', 'driving');
+    urls.push(`https://www.google.com/maps/dir/?${params.toString()}`);
+    from = destination;
   }
+  return urls;
+};
+
+/** Opens Waze navigating to one stop. Coordinates are used when known, as Waze's address search is patchy. */
+export const getWazeUrl = (address: string, point?: LatLon | null) =>
+  point
+    ? `https://waze.com/ul?ll=${point.lat},${point.lon}&navigate=yes`
+    : `https://waze.com/ul?q=${encodeURIComponent(cleanAddressForUrl(address))}&navigate=yes`;
+
+/**
+ * Coordinates for an address, or null if it can't be found. Throws RoutingUnavailableError
+ * when the address isn't cached and no provider can be reached to look it up.
+ */
+export async function geocode(address: string): Promise<LatLon | null> {
+  const query = cleanAddressForGeocode(address);
+
+  // Skip empty queries
+  if (!query || query.length < 3) return null;
+
+  // Addresses that can't be found are remembered too, so Nominatim isn't asked again on every plan
+  return withRouteCache(`geocode:${normaliseCacheKey(query)}`, GEOCODE_TTL_MS, () => routing().geocode(query), {
+    notFoundTtlMs: GEOCODE_NOT_FOUND_TTL_MS,
+  });
 }
 
+// ~1m precision is plenty to recognise the same pair of stops
+const pointKey = ({ lat, lon }: LatLon) => `${lat.toFixed(5)},${lon.toFixed(5)}`;
+
+/** Null when either address or the route can't be found; throws RoutingUnavailableError like geocode. */
 export async function estimateTravelTime(origin: string, destination: string): Promise<RouteResult | null> {
   const googleMapsUrl = getGoogleMapsUrl(origin, destination);
   
   if (!origin || !destination) return null;
 
-  try {
-    // 1. Geocode both addresses
-    const [start, end] = await Promise.all([geocode(origin), geocode(destination)]);
-    
-    if (!start || !end) {
-      // Return null to trigger fallback UI
-      return null; 
-    }
+  // 1. Geocode both addresses
+  const [start, end] = await Promise.all([geocode(origin), geocode(destination)]);
 
-    // 2. Get Route from OSRM
-    const response = await fetch(
-      `https://router.project-osrm.org/route/v1/driving/${start.lon},${start.lat};${end.lon},${end.lat}?overview=false`
-    );
-    
-    if (!response.ok) return null;
-
-    const data = await response.json();
-
-    if (data.routes && data.routes.length > 0) {
-      const seconds = data.routes[0].duration;
-      const meters = data.routes[0].distance;
-      
-      const mins = Math.round(seconds / 60);
-      const miles = (meters * 0.000621371).toFixed(1);
-
-      return {
-        durationText: `${mins} mins`,
-        distanceText: `${miles} mi`,
-        googleMapsUrl
-      };
-    }
-  } catch (error) {
-    console.error("Routing failed", error);
+  if (!start || !end) {
+    // Return null to trigger fallback UI
+    return null;
+  }
+
+  // 2. Get the route from the first provider that can answer
+  // Offline estimates aren't cached, so a real route replaces them once a provider is back
+  const leg = await withRouteCache(
+    `route:${pointKey(start)}->${pointKey(end)}`,
+    ROUTE_TTL_MS,
+    () => routing().route(start, end),
+    { shouldCache: result => !result.approximate },
+  );
+  if (!leg) return null;
+
+  const mins = Math.round(leg.durationSeconds / 60);
+  const miles = (leg.distanceMeters * 0.000621371).toFixed(1);
+  const prefix = leg.approximate ? '~' : '';
+
+  return {
+    durationSeconds: leg.durationSeconds,
+    durationText: `${prefix}${mins} mins`,
+    distanceText: `${prefix}${miles} mi`,
+    googleMapsUrl,
+    approximate: leg.approximate,
+  };
+}
+
+/** The driving path through `stops` in order, or null with fewer than two stops. */
+export async function getRouteGeometry(stops: LatLon[]): Promise<RouteGeometry | null> {
+  if (stops.length < 2) return null;
+  return withRouteCache(
+    `geometry:${stops.map(pointKey).join('->')}`,
+    ROUTE_TTL_MS,
+    () => routing().routeGeometry(stops),
+    { shouldCache: result => !result.approximate },
+  );
+}
+
+export class GeocodeError extends Error {
+  constructor(public readonly address: string, public readonly offline = false) {
+    super(offline ? `Locating "${address}" needs a network connection` : `Could not locate "${address}"`);
+    this.name = 'GeocodeError';
   }
+}
 
-  return null;
+/**
+ * Driving durations in seconds between every pair of addresses, in a single matrix
+ * request where the provider supports it. durations[i][j] is i -> j.
+ */
+export async function buildTravelMatrix(addresses: string[]): Promise<number[][]> {
+  const points: LatLon[] = [];
+  for (const address of addresses) {
+    const point = await geocode(address).catch(e => {
+      if (e instanceof RoutingUnavailableError) throw new GeocodeError(address, true);
+      throw e;
+    });
+    if (!point) throw new GeocodeError(address);
+    points.push(point);
+  }
+  return routing().table(points);
 }
 
 export const getCurrentPosition = (): Promise<{ lat: number; lon: number }> => {
@@ -115,26 +190,10 @@ export const getCurrentPosition = (): Promise<{ lat: number; lon: number }> => {
 };
 
 export const reverseGeocode = async (lat: number, lon: number): Promise<string> => {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}&zoom=18&addressdetails=1`,
-      { headers: { 'User-Agent': 'FieldServiceAssistant/1.0' } }
-    );
-    if (!response.ok) throw new Error('Reverse geocoding failed');
-    const data = await response.json();
-    // Construct a readable address
-    const addr = data.address;
-    // Prioritize specific fields
-    const parts = [
-       addr.road || addr.pedestrian,
-       addr.house_number,
-       addr.city || addr.town || addr.village,
-       addr.postcode
-    ].filter(Boolean);
-    
-    return parts.join(', ') || data.display_name;
-  } catch (e) {
-    console.error(e);
-    return `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
-  }
+  // Offline the coordinates themselves still work as a start point
+  const address = await routing().reverseGeocode({ lat, lon }).catch(e => {
+    if (e instanceof RoutingUnavailableError) return null;
+    throw e;
+  });
+  return address || `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
 };
@@ -0,0 +1,90 @@
+import type { JobData, TimeSlot, WorksheetData } from '../types';
+import type { ScheduleSettings } from './settings';
+import { isFinished } from './jobStatus';
+import { parseClockTime } from './clock';
+import { estimateTravelTime } from './routingService';
+import { getJobDuration, reviseTimeSlots } from './scheduler';
+
+// When a job overruns, the windows for the rest of the day are re-estimated from the
+// time the engineer is free again, with real drive times between the remaining jobs.
+
+export interface RevisedEta {
+  job: JobData;
+  oldSlot: TimeSlot | null;
+  newSlot: TimeSlot;
+  shiftMinutes: number; // How far the window start moved
+}
+
+/**
+ * The job the engineer is at (or last left) and the jobs still to visit after it. A job
+ * on site is treated as the one overrunning; otherwise the day carries on from the last
+ * finished job.
+ */
+export const splitRemainingJobs = (jobs: JobData[]): { current: JobData | null; remaining: JobData[] } => {
+  const onSiteIndex = jobs.findIndex(job => job.status === 'on_site');
+  if (onSiteIndex !== -1) {
+    return {
+      current: jobs[onSiteIndex],
+      remaining: jobs.slice(onSiteIndex + 1).filter(job => !isFinished(job.status)),
+    };
+  }
+  const finished = jobs.filter(job => isFinished(job.status));
+  return {
+    current: finished[finished.length - 1] ?? null,
+    remaining: jobs.filter(job => !isFinished(job.status)),
+  };
+};
+
+const travelMinutesBetween = async (origin: string, destination: string): Promise<number | null> => {
+  try {
+    const route = await estimateTravelTime(origin, destination);
+    return route ? Math.round(route.durationSeconds / 60) : null;
+  } catch (e) {
+    console.warn('Could not estimate travel time', e);
+    return null;
+  }
+};
+
+/** New windows for every remaining job, if the engineer is free at `readyAt` ("HH:MM"). */
+export const planRevisedEtas = async (
+  worksheet: WorksheetData,
+  readyAt: string,
+  settings: ScheduleSettings,
+): Promise<RevisedEta[]> => {
+  const ready = parseClockTime(readyAt);
+  if (ready === null) throw new Error(`"${readyAt}" is not a valid time`);
+
+  const { current, remaining } = splitRemainingJobs(worksheet.jobs);
+  const addresses = [current?.address ?? '', ...remaining.map(job => job.address)];
+
+  // Legs are fetched one at a time; geocoding is rate limited anyway
+  const travelMinutes: (number | null)[] = [];
+  for (let i = 1; i < addresses.length; i++) {
+    travelMinutes.push(addresses[i - 1] && addresses[i] ? await travelMinutesBetween(addresses[i - 1], addresses[i]) : null);
+  }
+
+  const oldSlots = remaining.map(job => worksheet.timeSlots[job.id]);
+  const newSlots = reviseTimeSlots(
+    ready,
+    oldSlots,
+    remaining.map(job => getJobDuration(job.productType, settings)),
+    travelMinutes,
+    settings,
+  );
+
+  return remaining.map((job, index) => {
+    const oldSlot = oldSlots[index] ?? null;
+    const oldStart = oldSlot ? parseClockTime(oldSlot.start) : null;
+    const newStart = parseClockTime(newSlots[index].start) ?? 0;
+    return {
+      job,
+      oldSlot,
+      newSlot: newSlots[index],
+      shiftMinutes: oldStart === null ? 0 : newStart - oldStart,
+    };
+  });
+};
+
+/** Whether the customer should be told. Jobs without a previous window always are. */
+export const needsRevisedEta = (revision: RevisedEta, settings: ScheduleSettings) =>
+  !revision.oldSlot || revision.shiftMinutes > settings.lateThresholdMinutes;
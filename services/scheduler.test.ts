@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { cascadeTimeSlots, generateTimeSlots, getJobDuration, reviseTimeSlots } from './scheduler';
+import { DEFAULT_SCHEDULE_SETTINGS, type ScheduleSettings } from './settings';
+
+// Day starts 07:30; first window 60 minutes, others 120; 20 minute fallback drive
+const settings: ScheduleSettings = { ...DEFAULT_SCHEDULE_SETTINGS };
+const late: ScheduleSettings = { ...settings, dayStart: '21:00' };
+
+describe('getJobDuration', () => {
+  it('uses the first rule matching the product type, else the default', () => {
+    expect(getJobDuration('Bosch Washer Dryer', settings)).toBe(75);
+    expect(getJobDuration('Tumble dryer', settings)).toBe(45);
+    expect(getJobDuration('Fridge freezer', settings)).toBe(60);
+  });
+});
+
+describe('generateTimeSlots', () => {
+  it('rounds each window up to the next quarter hour', () => {
+    const slots = generateTimeSlots([60, 45], [10, 17], settings);
+
+    // 07:30 + 10 = 07:40 -> 07:45; 07:45 + 60 + 17 = 09:02 -> 09:15
+    expect(slots).toEqual([
+      { start: '07:45', end: '08:45' },
+      { start: '09:15', end: '11:15' },
+    ]);
+  });
+
+  it('keeps a start already on the quarter hour', () => {
+    expect(generateTimeSlots([60, 60], [15, 30], settings).map(slot => slot.start)).toEqual(['07:45', '09:15']);
+  });
+
+  it('uses the fallback drive for legs the routing service could not estimate', () => {
+    const slots = generateTimeSlots([60, 60, 60], [null, null, 40], settings);
+
+    // No drive before the first job; 07:30 + 60 + 20 = 08:50 -> 09:00; 09:00 + 60 + 40 = 10:40 -> 10:45
+    expect(slots.map(slot => slot.start)).toEqual(['07:30', '09:00', '10:45']);
+  });
+
+  it('uses the fallback for legs missing from a short list', () => {
+    expect(generateTimeSlots([60, 60], [0], settings).map(slot => slot.start)).toEqual(['07:30', '09:00']);
+  });
+
+  it('carries on past midnight', () => {
+    const slots = generateTimeSlots([60, 60, 60], [10, 20, 20], late);
+
+    expect(slots).toEqual([
+      { start: '21:15', end: '22:15' },
+      { start: '22:45', end: '00:45' },
+      { start: '00:15', end: '02:15' },
+    ]);
+  });
+});
+
+describe('cascadeTimeSlots', () => {
+  const durations = [60, 60, 60, 60];
+  const travel = [0, 20, 20, 20];
+  const day = generateTimeSlots(durations, travel, settings); // 07:30, 09:00, 10:30, 12:00
+
+  it('pushes back later windows the engineer could no longer reach', () => {
+    const slots = cascadeTimeSlots(day, 1, '10:00', durations, travel, settings);
+
+    expect(slots.map(slot => slot.start)).toEqual(['07:30', '10:00', '11:30', '13:00']);
+    expect(slots[1]).toEqual({ start: '10:00', end: '12:00' });
+  });
+
+  it('stops at the first window that already leaves enough room', () => {
+    const roomy = [...day.slice(0, 3), { start: '15:00', end: '17:00' }];
+    const slots = cascadeTimeSlots(roomy, 0, '08:30', durations, travel, settings);
+
+    // 08:30 + 80 -> 10:00, 10:00 + 80 -> 11:30, then 15:00 is still reachable
+    expect(slots.map(slot => slot.start)).toEqual(['08:30', '10:00', '11:30', '15:00']);
+  });
+
+  it('leaves later windows alone when a job is brought forward', () => {
+    const slots = cascadeTimeSlots(day, 1, '08:45', durations, travel, settings);
+    expect(slots.slice(2)).toEqual(day.slice(2));
+  });
+
+  it('ignores a start that is not a clock time', () => {
+    expect(cascadeTimeSlots(day, 1, 'soon', durations, travel, settings)).toBe(day);
+  });
+
+  it('reads windows after midnight as later, not earlier', () => {
+    const evening = [{ start: '22:00', end: '23:00' }, { start: '23:30', end: '01:30' }, { start: '01:30', end: '03:30' }];
+
+    // 23:45 + 80 = 01:05 -> 01:15, so the 01:30 window can still be reached
+    expect(cascadeTimeSlots(evening, 1, '23:45', [60, 60, 60], [0, 20, 20], late)[2]).toEqual(evening[2]);
+    // 00:15 + 80 = 01:35 -> 01:45
+    expect(cascadeTimeSlots(evening, 1, '00:15', [60, 60, 60], [0, 20, 20], late)[2]).toEqual({ start: '01:45', end: '03:45' });
+  });
+});
+
+describe('reviseTimeSlots', () => {
+  const old = [{ start: '10:00', end: '12:00' }, { start: '13:00', end: '14:00' }];
+
+  it('moves windows later from when the engineer is free, keeping their width', () => {
+    const slots = reviseTimeSlots(11 * 60, old, [60, 60], [25, 30], settings);
+
+    // 11:00 + 25 = 11:25 -> 11:30; 11:30 + 60 + 30 = 13:00
+    expect(slots).toEqual([
+      { start: '11:30', end: '13:30' },
+      { start: '13:00', end: '14:00' },
+    ]);
+  });
+
+  it('never brings a window forward', () => {
+    expect(reviseTimeSlots(8 * 60, old, [60, 60], [10, 10], settings)).toEqual(old);
+  });
+
+  it('uses the fallback drive and default width where nothing is known', () => {
+    const slots = reviseTimeSlots(9 * 60, [undefined], [60], [null], settings);
+    expect(slots).toEqual([{ start: '09:30', end: '11:30' }]);
+  });
+
+  it('keeps the width of a window spanning midnight and dates it after the one before', () => {
+    const evening = [{ start: '23:00', end: '00:00' }, { start: '00:30', end: '02:30' }];
+
+    // Free at 23:30: 23:30 + 20 = 23:50 -> 00:00, then 00:00 + 60 + 20 = 01:20 -> 01:30
+    expect(reviseTimeSlots(23 * 60 + 30, evening, [60, 60], [20, 20], late)).toEqual([
+      { start: '00:00', end: '01:00' },
+      { start: '01:30', end: '03:30' },
+    ]);
+  });
+
+  it('reads an old window before midnight as past when the engineer is free after it', () => {
+    const slots = reviseTimeSlots(30, [{ start: '23:45', end: '00:45' }], [60], [20], late);
+    expect(slots).toEqual([{ start: '01:00', end: '02:00' }]);
+  });
+});
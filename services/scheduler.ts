@@ -0,0 +1,115 @@
+import type { TimeSlot } from '../types';
+import type { ScheduleSettings } from './settings';
+import { formatClockTime, parseClockTime } from './clock';
+
+// Arrival windows for a day's jobs. Each window opens at the planned arrival time:
+// the previous job's arrival plus its time on site plus the drive to the next one.
+// travelMinutes[i] is the drive *into* job i, so travelMinutes[0] is from the start
+// of day.
+
+// Window starts are rounded up to this many minutes to keep times customer-friendly
+export const SLOT_STEP_MINUTES = 15;
+
+const roundUpToStep = (minutes: number) => Math.ceil(minutes / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Slot times carry no date, so a clock time is read as the day nearest `reference`:
+ * 00:15 after a 23:30 window is just past midnight, not earlier that day.
+ */
+const nearestTo = (minutes: number, reference: number) =>
+  minutes + Math.round((reference - minutes) / DAY_MINUTES) * DAY_MINUTES;
+
+/** Expected time on site for a job, from the first duration rule matching its product type. */
+export const getJobDuration = (productType: string, settings: ScheduleSettings): number => {
+  const type = productType.toLowerCase();
+  const rule = settings.jobDurations.find(r => r.match.trim() && type.includes(r.match.trim().toLowerCase()));
+  return rule ? rule.minutes : settings.defaultJobMinutes;
+};
+
+/** The window for job `index` opening at `startMinutes`. */
+export const slotStartingAt = (startMinutes: number, index: number, settings: ScheduleSettings): TimeSlot => {
+  const width = index === 0 ? settings.firstWindowMinutes : settings.windowMinutes;
+  return { start: formatClockTime(startMinutes), end: formatClockTime(startMinutes + width) };
+};
+
+const travelInto = (index: number, travelMinutes: (number | null)[], settings: ScheduleSettings) =>
+  travelMinutes[index] ?? settings.fallbackTravelMinutes;
+
+/** Lays out the whole day from the start-of-day time. Unknown legs use the fallback drive time. */
+export const generateTimeSlots = (
+  durations: number[],
+  travelMinutes: (number | null)[],
+  settings: ScheduleSettings,
+): TimeSlot[] => {
+  const slots: TimeSlot[] = [];
+  let arrival = (parseClockTime(settings.dayStart) ?? 0) + (travelMinutes[0] ?? 0);
+
+  durations.forEach((duration, index) => {
+    const start = roundUpToStep(arrival);
+    slots.push(slotStartingAt(start, index, settings));
+    arrival = start + duration + travelInto(index + 1, travelMinutes, settings);
+  });
+  return slots;
+};
+
+/**
+ * Moves job `index` to `newStart`, then pushes later windows back wherever the engineer
+ * couldn't reach them in time. Stops at the first window that already leaves enough room,
+ * since nothing after it is affected.
+ */
+export const cascadeTimeSlots = (
+  slots: TimeSlot[],
+  index: number,
+  newStart: string,
+  durations: number[],
+  travelMinutes: (number | null)[],
+  settings: ScheduleSettings,
+): TimeSlot[] => {
+  const start = parseClockTime(newStart);
+  if (start === null) return slots;
+
+  const next = [...slots];
+  next[index] = slotStartingAt(start, index, settings);
+
+  let previousStart = start;
+  for (let i = index + 1; i < next.length; i++) {
+    const earliest = roundUpToStep(previousStart + (durations[i - 1] ?? settings.defaultJobMinutes) + travelInto(i, travelMinutes, settings));
+    const current = parseClockTime(next[i].start);
+    if (current !== null && nearestTo(current, previousStart) >= earliest) break;
+    next[i] = slotStartingAt(earliest, i, settings);
+    previousStart = earliest;
+  }
+  return next;
+};
+
+/**
+ * Re-plans the windows for jobs still to visit when the engineer is free again at
+ * `readyAt` (minutes since midnight). Windows keep their width and are never brought
+ * forward, since customers may not be home before the time they were given.
+ */
+export const reviseTimeSlots = (
+  readyAt: number,
+  slots: (TimeSlot | undefined)[],
+  durations: number[],
+  travelMinutes: (number | null)[],
+  settings: ScheduleSettings,
+): TimeSlot[] => {
+  let arrival = readyAt + travelInto(0, travelMinutes, settings);
+  let reference = readyAt; // Each old window is dated by the one before it, the first by now
+
+  return durations.map((duration, index) => {
+    const slot = slots[index];
+    const clockStart = slot ? parseClockTime(slot.start) : null;
+    const clockEnd = slot ? parseClockTime(slot.end) : null;
+    const oldStart = clockStart === null ? null : nearestTo(clockStart, reference);
+    // A window such as 23:00 - 01:00 runs over midnight rather than backwards
+    const span = clockStart !== null && clockEnd !== null ? (clockEnd - clockStart + DAY_MINUTES) % DAY_MINUTES : 0;
+    const width = span > 0 ? span : settings.windowMinutes;
+    const start = Math.max(roundUpToStep(arrival), oldStart ?? -Infinity);
+    if (oldStart !== null) reference = oldStart;
+    arrival = start + duration + travelInto(index + 1, travelMinutes, settings);
+    return { start: formatClockTime(start), end: formatClockTime(start + width) };
+  });
+};
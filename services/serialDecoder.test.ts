@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { applySerialDecoding, decodeSerial, type SerialDecodeResult } from './serialDecoder';
+import type { JobData } from '../types';
+
+const cases: { name: string; serial: string; brand: string; expected: Partial<SerialDecodeResult> }[] = [
+  // System A: all digits, starting with 3, YYWW at digits 9-12
+  { name: 'System A year and week', serial: '31009876 2134 0001', brand: 'Hoover', expected: { valid: true, system: 'A', year: 2021, week: 34, productCodePrefix: '31009876' } },
+  { name: 'System A regardless of brand', serial: '310098761901555', brand: 'Candy', expected: { valid: true, system: 'A', year: 2019, week: 1 } },
+  { name: 'System A invalid week', serial: '310098762160001', brand: 'Hoover', expected: { valid: false, system: 'A' } },
+  { name: 'System A too short', serial: '3100987621', brand: 'Hoover', expected: { valid: false, system: 'A' } },
+
+  // System B: Haier letter code at digit 14, A=2010 ... H=2017
+  { name: 'System B first letter', serial: '0021800067BCAA', brand: 'Haier', expected: { valid: true, system: 'B', year: 2010 } },
+  { name: 'System B last letter', serial: '0021800067BCAH1B1', brand: 'haier', expected: { valid: true, system: 'B', year: 2017 } },
+  { name: 'System B unknown letter', serial: '0021800067BCAZ1B1', brand: 'Haier', expected: { valid: false, system: 'B' } },
+  { name: 'System B too short to decode', serial: '0021800067', brand: 'Haier', expected: { valid: false, system: 'B', inconclusive: true } },
+
+  // 20-digit layout overrides the brand rules
+  { name: '20-digit year letter', serial: '3100123456789D123456', brand: 'Hoover', expected: { valid: true, system: '20-digit', year: 2013 } },
+  { name: '20-digit for Haier', serial: '0021800067BCAG1B1005', brand: 'Haier', expected: { valid: true, system: '20-digit', year: 2016 } },
+  { name: '20-digit unknown letter', serial: '3100123456789Z123456', brand: 'Hoover', expected: { valid: false, system: '20-digit' } },
+
+  // "0000" placeholder flag wins over everything
+  { name: '"0000" exactly', serial: '0000', brand: 'Hoover', expected: { valid: false } },
+  { name: 'ends in "0000"', serial: '310098762134 0000', brand: 'Hoover', expected: { valid: false } },
+
+  { name: 'empty serial', serial: '', brand: 'Hoover', expected: { valid: false, inconclusive: true } },
+  { name: 'unrecognised format', serial: 'XK99-1234', brand: 'Bosch', expected: { valid: false, inconclusive: true } },
+];
+
+describe('decodeSerial', () => {
+  it.each(cases)('$name', ({ serial, brand, expected }) => {
+    expect(decodeSerial(serial, brand)).toMatchObject(expected);
+  });
+
+  it('gives a reason whenever the serial is not valid', () => {
+    cases
+      .filter(({ expected }) => !expected.valid)
+      .forEach(({ serial, brand }) => expect(decodeSerial(serial, brand).reason).toBeTruthy());
+  });
+});
+
+const job = (serialNumber: string, productBrand: string, productionYear = ''): JobData => ({
+  id: 'job-1',
+  time: '',
+  customerName: '',
+  customerPhone: '',
+  address: '',
+  productCode: '',
+  productType: '',
+  productBrand,
+  fault: '',
+  errorCode: '',
+  productionYear,
+  serialNumber,
+  status: 'pending',
+  statusHistory: [],
+});
+
+describe('applySerialDecoding', () => {
+  it('overwrites the extracted year and clears an old flag', () => {
+    const decoded = applySerialDecoding({ ...job('310098762134001', 'Hoover', '2020'), serialFlag: 'stale' });
+    expect(decoded.productionYear).toBe('2021');
+    expect(decoded.serialFlag).toBeUndefined();
+  });
+
+  it('clears the year of an invalid serial', () => {
+    const decoded = applySerialDecoding(job('31009876210000', 'Hoover', '2021'));
+    expect(decoded.productionYear).toBe('');
+    expect(decoded.serialFlag).toBeTruthy();
+  });
+
+  it('keeps the extracted year when no rule applies', () => {
+    const decoded = applySerialDecoding(job('0021800067', 'Haier', '2015'));
+    expect(decoded.productionYear).toBe('2015');
+    expect(decoded.serialFlag).toBeTruthy();
+  });
+});
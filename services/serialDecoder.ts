@@ -0,0 +1,110 @@
+import type { JobData } from '../types';
+
+// Deterministic production-date decoding for Hoover / Candy / Haier serial numbers.
+// These rules used to live as prose in the Gemini prompt, which guessed wrong often
+// enough that the year is now always computed locally after extraction.
+
+export type SerialSystem = 'A' | 'B' | '20-digit';
+
+export interface SerialDecodeResult {
+  valid: boolean;
+  system?: SerialSystem;
+  year?: number;
+  week?: number;
+  productCodePrefix?: string;
+  reason?: string;
+  inconclusive?: boolean; // No rule applied, so an extracted year is left alone rather than cleared
+}
+
+// A=2010 ... H=2017, shared by System B and the 20-digit format
+const YEAR_LETTERS = 'ABCDEFGH';
+
+// 0-based index of the year letter: digit 14 of the 20-character layout
+const YEAR_CODE_INDEX = 13;
+
+const yearFromLetter = (letter: string): number | null => {
+  const index = YEAR_LETTERS.indexOf(letter.toUpperCase());
+  return index === -1 ? null : 2010 + index;
+};
+
+const normaliseSerial = (serial: string) => serial.replace(/[\s-]/g, '').toUpperCase();
+
+const decodeTwentyDigit = (serial: string): SerialDecodeResult => {
+  const code = serial.charAt(YEAR_CODE_INDEX);
+  const year = yearFromLetter(code);
+  if (year === null) {
+    return { valid: false, system: '20-digit', reason: `Unknown year code "${code}" at digit 14` };
+  }
+  return { valid: true, system: '20-digit', year };
+};
+
+const decodeSystemA = (serial: string): SerialDecodeResult => {
+  if (serial.length < 12) {
+    return { valid: false, system: 'A', reason: `Serial too short for YYWW date code (${serial.length} digits)` };
+  }
+  const productCodePrefix = serial.slice(0, 8);
+  const yy = parseInt(serial.slice(8, 10), 10);
+  const week = parseInt(serial.slice(10, 12), 10);
+  if (week < 1 || week > 53) {
+    return { valid: false, system: 'A', productCodePrefix, reason: `Invalid production week ${serial.slice(10, 12)}` };
+  }
+  return { valid: true, system: 'A', year: 2000 + yy, week, productCodePrefix };
+};
+
+const decodeSystemB = (serial: string): SerialDecodeResult => {
+  // Haier keeps the year letter at digit 14 whatever the length; shorter reads have lost the tail
+  if (serial.length <= YEAR_CODE_INDEX) {
+    return {
+      valid: false,
+      system: 'B',
+      inconclusive: true,
+      reason: `Haier serial too short for the year code at digit 14 (${serial.length} characters)`,
+    };
+  }
+  const code = serial.charAt(YEAR_CODE_INDEX);
+  const year = yearFromLetter(code);
+  if (year === null) {
+    return { valid: false, system: 'B', reason: `Unknown Haier year code "${code}" at digit 14` };
+  }
+  return { valid: true, system: 'B', year };
+};
+
+/**
+ * Decodes the production date from a serial number. Rules are applied in priority
+ * order: the "0000" invalid flag, the 20-digit format (overrides everything else),
+ * System B for Haier, then System A for all-digit serials starting with "3".
+ */
+export const decodeSerial = (serial: string, brand: string): SerialDecodeResult => {
+  const clean = normaliseSerial(serial || '');
+
+  if (!clean) {
+    return { valid: false, inconclusive: true, reason: 'No serial number' };
+  }
+  if (clean.endsWith('0000')) {
+    return { valid: false, reason: 'Serial number is a "0000" placeholder' };
+  }
+  if (clean.length === 20) {
+    return decodeTwentyDigit(clean);
+  }
+  if ((brand || '').trim().toLowerCase() === 'haier') {
+    return decodeSystemB(clean);
+  }
+  if (/^3\d+$/.test(clean)) {
+    return decodeSystemA(clean);
+  }
+  return { valid: false, inconclusive: true, reason: 'Serial format not recognised' };
+};
+
+/**
+ * Overwrites `productionYear` from the decoded serial. When the serial is invalid the
+ * year is cleared; when no rule applies the extracted year is kept. Either way
+ * `serialFlag` records why, so the card can show the engineer what to check.
+ */
+export const applySerialDecoding = (job: JobData): JobData => {
+  const result = decodeSerial(job.serialNumber, job.productBrand);
+  if (result.valid && result.year) {
+    const { serialFlag: _cleared, ...rest } = job;
+    return { ...rest, productionYear: String(result.year) };
+  }
+  return { ...job, productionYear: result.inconclusive ? job.productionYear : '', serialFlag: result.reason };
+};
@@ -0,0 +1,192 @@
+// User preferences. These are small and read synchronously on render, so they live in
+// localStorage rather than the IndexedDB repositories used for saved worksheets.
+
+const SETTINGS_PREFIX = 'settings_';
+
+const readSetting = <T>(key: string, defaults: T): T => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_PREFIX + key) : null;
+    if (!raw) return defaults;
+    const parsed = JSON.parse(raw);
+    // Merge so settings saved by an older version pick up newly added fields
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? { ...defaults, ...parsed } : defaults;
+  } catch (e) {
+    console.warn(`Ignoring unreadable setting "${key}"`, e);
+    return defaults;
+  }
+};
+
+const writeSetting = <T>(key: string, value: T) => {
+  localStorage.setItem(SETTINGS_PREFIX + key, JSON.stringify(value));
+};
+
+export interface JobDurationRule {
+  match: string; // Case-insensitive text looked for in the job's product type
+  minutes: number;
+}
+
+export interface ScheduleSettings {
+  dayStart: string; // "HH:MM" the engineer sets off for the first job
+  firstWindowMinutes: number; // Arrival window offered to the first customer
+  windowMinutes: number; // Arrival window offered to everyone else
+  defaultJobMinutes: number; // Time on site when no duration rule matches
+  fallbackTravelMinutes: number; // Used for legs the routing service can't estimate
+  lateThresholdMinutes: number; // A window moving further than this warrants a revised ETA message
+  jobDurations: JobDurationRule[]; // First match wins
+}
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  dayStart: '07:30',
+  firstWindowMinutes: 60,
+  windowMinutes: 120,
+  defaultJobMinutes: 60,
+  fallbackTravelMinutes: 20,
+  lateThresholdMinutes: 15,
+  jobDurations: [
+    { match: 'washer dryer', minutes: 75 },
+    { match: 'washing machine', minutes: 60 },
+    { match: 'dryer', minutes: 45 },
+    { match: 'dishwasher', minutes: 60 },
+  ],
+};
+
+export const loadScheduleSettings = (): ScheduleSettings => readSetting('schedule', DEFAULT_SCHEDULE_SETTINGS);
+
+export const saveScheduleSettings = (settings: ScheduleSettings) => writeSetting('schedule', settings);
+
+export type RoutingProviderId = 'public' | 'self-hosted' | 'offline';
+
+export interface RoutingSettings {
+  providers: { id: RoutingProviderId; enabled: boolean }[]; // Tried in this order
+  osrmUrl: string; // Base URL of a self-hosted OSRM server
+  averageSpeedMph: number; // Used by the offline estimate
+}
+
+export const DEFAULT_ROUTING_SETTINGS: RoutingSettings = {
+  providers: [
+    { id: 'self-hosted', enabled: false },
+    { id: 'public', enabled: true },
+    { id: 'offline', enabled: true },
+  ],
+  osrmUrl: '',
+  averageSpeedMph: 25,
+};
+
+export const loadRoutingSettings = (): RoutingSettings => readSetting('routing', DEFAULT_ROUTING_SETTINGS);
+
+export const saveRoutingSettings = (settings: RoutingSettings) => writeSetting('routing', settings);
+
+export interface MapSettings {
+  tileUrl: string; // Template with {z}/{x}/{y} and optionally {s} placeholders
+  attribution: string;
+}
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  tileUrl: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '© OpenStreetMap contributors',
+};
+
+export const loadMapSettings = (): MapSettings => readSetting('map', DEFAULT_MAP_SETTINGS);
+
+export const saveMapSettings = (settings: MapSettings) => writeSetting('map', settings);
+
+export type MessageTemplateId = 'evening_eta' | 'running_late' | 'on_my_way' | 'job_complete' | 'parts_ordered';
+
+export interface MessageTemplate {
+  id: MessageTemplateId;
+  label: string;
+  body: string; // See MESSAGE_PLACEHOLDERS in messageTemplates.ts
+}
+
+export interface MessageSettings {
+  engineerName: string;
+  templates: MessageTemplate[];
+}
+
+export const DEFAULT_MESSAGE_TEMPLATES: MessageTemplate[] = [
+  {
+    id: 'evening_eta',
+    label: 'Evening ETA',
+    body: 'Good evening, I am {{engineerName}}, the {{brand|Hoover/Candy}} engineer that will be coming to look at your appliance tomorrow. Your correct ETA is as follows: {{timeSlot}}\n\nPlease note that this ETA is an estimate. Unforeseen traffic or changes in my daily schedule, such as cancellations, may mean I arrive slightly earlier or later. I will of course contact you if any significant changes to this estimate arise.',
+  },
+  {
+    id: 'running_late',
+    label: 'Running late',
+    body: 'Hi {{customerName|there}}, this is {{engineerName}}, your {{brand|Hoover/Candy}} engineer. I am running behind schedule today, sorry for the inconvenience. My new estimated arrival time is {{timeSlot}}.',
+  },
+  {
+    id: 'on_my_way',
+    label: 'On my way',
+    body: 'Hi {{customerName|there}}, this is {{engineerName}}, your {{brand|Hoover/Candy}} engineer. I am on my way to you now to look at your {{productType|appliance}}.',
+  },
+  {
+    id: 'job_complete',
+    label: 'Job complete',
+    body: 'Hi {{customerName|there}}, thank you for having me today. The repair to your {{productType|appliance}} is now complete. If you have any further problems, please get in touch. Kind regards, {{engineerName}}.',
+  },
+  {
+    id: 'parts_ordered',
+    label: 'Parts ordered',
+    body: 'Hi {{customerName|there}}, this is {{engineerName}}. Following my visit about "{{fault}}", I have ordered the parts needed to repair your {{productType|appliance}}. You will be contacted to arrange a return visit once they arrive.',
+  },
+];
+
+export const DEFAULT_MESSAGE_SETTINGS: MessageSettings = {
+  engineerName: 'Matt',
+  templates: DEFAULT_MESSAGE_TEMPLATES,
+};
+
+/** Templates added in later versions are filled in from the defaults. */
+export const loadMessageSettings = (): MessageSettings => {
+  const settings = readSetting('messages', DEFAULT_MESSAGE_SETTINGS);
+  const templates = DEFAULT_MESSAGE_TEMPLATES.map(
+    template => settings.templates.find(t => t.id === template.id) || template,
+  );
+  return { ...settings, templates };
+};
+
+export const saveMessageSettings = (settings: MessageSettings) => writeSetting('messages', settings);
+
+export type WhisperModelId = 'tiny.en' | 'base.en' | 'small.en' | 'large-v3-turbo';
+
+export interface TranscriptionSettings {
+  model: WhisperModelId; // See WHISPER_MODELS in transcriptionService.ts
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  model: 'base.en',
+};
+
+export const loadTranscriptionSettings = (): TranscriptionSettings =>
+  readSetting('transcription', DEFAULT_TRANSCRIPTION_SETTINGS);
+
+export const saveTranscriptionSettings = (settings: TranscriptionSettings) => writeSetting('transcription', settings);
+
+// WebLLM prebuilt model IDs offered in Settings; see LLM_MODELS in llmModels.ts
+export type LlmModelId =
+  | 'Qwen2.5-0.5B-Instruct-q4f16_1-MLC'
+  | 'Llama-3.2-1B-Instruct-q4f16_1-MLC'
+  | 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC'
+  | 'Llama-3.2-3B-Instruct-q4f16_1-MLC'
+  | 'Phi-3.5-mini-instruct-q4f16_1-MLC'
+  | 'Llama-3-8B-Instruct-q4f32_1-MLC';
+
+export interface AssistantSettings {
+  model: LlmModelId;
+  temperature: number; // 0 keeps answers predictable; higher values vary them more
+  maxTokens: number; // Upper bound on the length of one reply
+  systemPrompt: string; // Standing instructions, sent ahead of the worksheet context
+}
+
+export const DEFAULT_ASSISTANT_SETTINGS: AssistantSettings = {
+  model: 'Llama-3.2-1B-Instruct-q4f16_1-MLC',
+  temperature: 0.7,
+  maxTokens: 1024,
+  systemPrompt:
+    'You are an assistant for a field service engineer repairing domestic appliances. ' +
+    'Answer briefly and practically.',
+};
+
+export const loadAssistantSettings = (): AssistantSettings => readSetting('assistant', DEFAULT_ASSISTANT_SETTINGS);
+
+export const saveAssistantSettings = (settings: AssistantSettings) => writeSetting('assistant', settings);
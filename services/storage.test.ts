@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  Database,
+  QuarantineRepository,
+  Repository,
+  STORE_NAMES,
+  WorksheetRepository,
+  type StoredRecord,
+} from './storage';
+
+interface Note extends StoredRecord {
+  text: string;
+}
+
+/** A Storage stand-in for the pre-IndexedDB localStorage records. */
+const memoryStorage = (entries: Record<string, string> = {}): Storage => {
+  const data = new Map(Object.entries(entries));
+  return {
+    get length() {
+      return data.size;
+    },
+    key: (index) => [...data.keys()][index] ?? null,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: (key) => void data.delete(key),
+    clear: () => data.clear(),
+  };
+};
+
+// Each test gets its own in-memory IndexedDB
+const createDatabase = (legacyStorage: Storage | null = null) =>
+  new Database({ factory: new IDBFactory(), legacyStorage });
+
+const note = (id: string, createdAt: string, text = id): Note => ({ id, date: createdAt, createdAt, text });
+
+describe('Repository', () => {
+  it('saves, gets, counts and deletes records', async () => {
+    const notes = new Repository<Note>(createDatabase(), STORE_NAMES.messages);
+    await notes.save(note('a', '2024-05-01T09:00:00Z'));
+    await notes.save(note('b', '2024-05-02T09:00:00Z'));
+
+    expect(await notes.get('a')).toEqual(note('a', '2024-05-01T09:00:00Z'));
+    expect(await notes.get('missing')).toBeNull();
+    expect(await notes.count()).toBe(2);
+
+    await notes.delete('a');
+    expect(await notes.get('a')).toBeNull();
+    expect(await notes.count()).toBe(1);
+  });
+
+  it('overwrites a record saved with the same id', async () => {
+    const notes = new Repository<Note>(createDatabase(), STORE_NAMES.messages);
+    await notes.save(note('a', '2024-05-01T09:00:00Z', 'first'));
+    await notes.save(note('a', '2024-05-01T09:00:00Z', 'second'));
+    expect((await notes.list()).map(n => n.text)).toEqual(['second']);
+  });
+
+  it('lists newest first, falling back to date when createdAt is missing', async () => {
+    const notes = new Repository<Note>(createDatabase(), STORE_NAMES.messages);
+    await notes.save(note('middle', '2024-05-02T09:00:00Z'));
+    await notes.save({ id: 'newest', date: '2024-05-03T09:00:00Z', text: '' });
+    await notes.save(note('oldest', '2024-05-01T09:00:00Z'));
+    expect((await notes.list()).map(n => n.id)).toEqual(['newest', 'middle', 'oldest']);
+  });
+
+  it('notifies subscribers of saves, deletes and clears until unsubscribed', async () => {
+    const notes = new Repository<Note>(createDatabase(), STORE_NAMES.messages);
+    const listener = vi.fn();
+    const unsubscribe = notes.subscribe(listener);
+
+    await notes.save(note('a', '2024-05-01T09:00:00Z'));
+    await notes.delete('a');
+    await notes.clear();
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    unsubscribe();
+    await notes.save(note('b', '2024-05-01T09:00:00Z'));
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('applies concurrent updates on top of each other', async () => {
+    const notes = new Repository<Note>(createDatabase(), STORE_NAMES.messages);
+    await notes.save(note('a', '2024-05-01T09:00:00Z', ''));
+    await Promise.all(['x', 'y', 'z'].map(letter => notes.update('a', current => ({ ...current, text: current.text + letter }))));
+    expect((await notes.get('a'))?.text).toHaveLength(3);
+    expect(await notes.update('missing', current => current)).toBeNull();
+  });
+
+  it('keeps stores apart', async () => {
+    const db = createDatabase();
+    const messages = new Repository<Note>(db, STORE_NAMES.messages);
+    const worksheets = new Repository<Note>(db, STORE_NAMES.worksheets);
+    await messages.save(note('a', '2024-05-01T09:00:00Z'));
+    expect(await worksheets.count()).toBe(0);
+  });
+});
+
+describe('Database', () => {
+  it('moves legacy localStorage records into their stores once', async () => {
+    const legacy = memoryStorage({
+      worksheet_1: JSON.stringify({ date: '2024-05-01', jobs: [] }),
+      messages_1: JSON.stringify({ date: '2024-05-01', messages: [] }),
+      unrelated: 'kept',
+    });
+    const db = createDatabase(legacy);
+
+    const worksheets = await new Repository<StoredRecord>(db, STORE_NAMES.worksheets).list();
+    const messages = await new Repository<StoredRecord>(db, STORE_NAMES.messages).list();
+    expect(worksheets.map(w => w.id)).toEqual(['1']);
+    expect(messages.map(m => m.id)).toEqual(['1']);
+    expect(legacy.getItem('worksheet_1')).toBeNull();
+    expect(legacy.getItem('messages_1')).toBeNull();
+    expect(legacy.getItem('unrelated')).toBe('kept');
+  });
+
+  it('leaves unreadable legacy records in localStorage', async () => {
+    const legacy = memoryStorage({ worksheet_bad: '{not json' });
+    const db = createDatabase(legacy);
+    expect(await new Repository<StoredRecord>(db, STORE_NAMES.worksheets).count()).toBe(0);
+    expect(legacy.getItem('worksheet_bad')).toBe('{not json');
+  });
+
+  it('rejects when IndexedDB is unavailable', async () => {
+    // Node has no global indexedDB, so without a factory there is nothing to open
+    const db = new Database({ legacyStorage: null });
+    await expect(db.open()).rejects.toThrow('IndexedDB is not available');
+  });
+});
+
+describe('quarantine', () => {
+  const readable = { id: 'good', date: '2024-05-02T08:00:00.000Z', jobs: [] };
+  const corrupt = { id: 'bad', date: 'never', jobs: [] };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const seed = async (db: Database, records: unknown[]) => {
+    const raw = new Repository<StoredRecord>(db, STORE_NAMES.worksheets);
+    for (const record of records) await raw.save(record as StoredRecord);
+  };
+
+  it('moves corrupt records to quarantine and lists the rest', async () => {
+    const db = createDatabase();
+    await seed(db, [readable, corrupt]);
+    const quarantine = new QuarantineRepository(db);
+    const worksheets = new WorksheetRepository(db, quarantine);
+
+    expect((await worksheets.list()).map(w => w.id)).toEqual(['good']);
+    const [held] = await quarantine.list();
+    expect(held).toMatchObject({ id: 'worksheets:bad', store: 'worksheets', recordId: 'bad', record: corrupt });
+    expect(held.reason).toBe('Record has no readable date');
+    expect(await new Repository<StoredRecord>(db, STORE_NAMES.worksheets).get('bad')).toBeNull();
+  });
+
+  it('writes migrated records back so the chain runs once', async () => {
+    const db = createDatabase();
+    await seed(db, [readable]);
+    await new WorksheetRepository(db).list();
+    const stored = await new Repository<StoredRecord & { schemaVersion?: number }>(db, STORE_NAMES.worksheets).get('good');
+    expect(stored?.schemaVersion).toBeGreaterThan(0);
+  });
+
+  it('still lists readable records when a quarantine move fails', async () => {
+    const db = createDatabase();
+    await seed(db, [readable, corrupt, { ...corrupt, id: 'worse' }]);
+    const quarantine = new QuarantineRepository(db);
+    vi.spyOn(quarantine, 'add').mockRejectedValue(new Error('Quota exceeded'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await new WorksheetRepository(db, quarantine).list()).map(w => w.id)).toEqual(['good']);
+    expect(quarantine.add).toHaveBeenCalledTimes(2);
+  });
+});
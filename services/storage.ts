@@ -0,0 +1,393 @@
+import type { AssistantConversation, SavedMessages, VoiceNote, WorksheetData } from '../types';
+import { RecordValidationError, upgradeMessages, upgradeWorksheet, type UpgradeResult } from './recordMigrations';
+
+// All saved app data lives in one IndexedDB database. Components go through the
+// repositories below instead of scanning localStorage keys themselves.
+
+const DB_NAME = 'fsd-pro';
+const DB_VERSION = 5;
+
+export const STORE_NAMES = {
+  worksheets: 'worksheets',
+  messages: 'messages',
+  quarantine: 'quarantine',
+  routeCache: 'routeCache',
+  voiceNotes: 'voiceNotes',
+  conversations: 'conversations',
+} as const;
+
+type StoreName = typeof STORE_NAMES[keyof typeof STORE_NAMES];
+
+// localStorage prefixes used before IndexedDB, mapped to the store that replaces them
+const LEGACY_PREFIXES: { prefix: string; store: StoreName }[] = [
+  { prefix: 'worksheet_', store: STORE_NAMES.worksheets },
+  { prefix: 'messages_', store: STORE_NAMES.messages },
+];
+
+export interface StoredRecord {
+  id: string;
+  date: string;
+  createdAt?: string;
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+interface DatabaseOptions {
+  factory?: IDBFactory;
+  legacyStorage?: Storage | null;
+  name?: string;
+}
+
+/**
+ * Lazily opened connection to the app database. The factory and legacy storage are
+ * injectable so the repositories can run against an in-memory IndexedDB stand-in.
+ */
+export class Database {
+  private readonly factory?: IDBFactory;
+  private readonly legacyStorage: Storage | null;
+  private readonly name: string;
+  private connection: Promise<IDBDatabase> | null = null;
+
+  constructor({ factory, legacyStorage, name = DB_NAME }: DatabaseOptions = {}) {
+    this.factory = factory;
+    this.legacyStorage = legacyStorage !== undefined
+      ? legacyStorage
+      : (typeof localStorage !== 'undefined' ? localStorage : null);
+    this.name = name;
+  }
+
+  open(): Promise<IDBDatabase> {
+    if (!this.connection) {
+      this.connection = this.connect().catch(err => {
+        this.connection = null;
+        throw err;
+      });
+    }
+    return this.connection;
+  }
+
+  async transaction(stores: StoreName | StoreName[], mode: IDBTransactionMode): Promise<IDBTransaction> {
+    const db = await this.open();
+    return db.transaction(stores, mode);
+  }
+
+  close() {
+    this.connection?.then(db => db.close());
+    this.connection = null;
+  }
+
+  private connect(): Promise<IDBDatabase> {
+    const factory = this.factory || (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+    if (!factory) return Promise.reject(new Error('IndexedDB is not available'));
+
+    return new Promise((resolve, reject) => {
+      const request = factory.open(this.name, DB_VERSION);
+      let migratedKeys: string[] = [];
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(STORE_NAMES.worksheets, { keyPath: 'id' });
+          db.createObjectStore(STORE_NAMES.messages, { keyPath: 'id' });
+          migratedKeys = this.migrateLegacyStorage(tx);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(STORE_NAMES.quarantine, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(STORE_NAMES.routeCache, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          const voiceNotes = db.createObjectStore(STORE_NAMES.voiceNotes, { keyPath: 'id' });
+          voiceNotes.createIndex('jobId', 'jobId');
+        }
+        if (event.oldVersion < 5) {
+          db.createObjectStore(STORE_NAMES.conversations, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => {
+        // Only drop the old keys once the upgrade transaction has committed
+        migratedKeys.forEach(key => this.legacyStorage?.removeItem(key));
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Database upgrade blocked by another tab'));
+    });
+  }
+
+  /**
+   * One-time copy of `worksheet_*` / `messages_*` records out of localStorage. Runs
+   * inside the upgrade transaction, so it can only ever happen once per browser.
+   */
+  private migrateLegacyStorage(tx: IDBTransaction): string[] {
+    const storage = this.legacyStorage;
+    if (!storage) return [];
+
+    const migrated: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      const legacy = key && LEGACY_PREFIXES.find(p => key.startsWith(p.prefix));
+      if (!key || !legacy) continue;
+
+      try {
+        const data = JSON.parse(storage.getItem(key) || '');
+        tx.objectStore(legacy.store).put({ ...data, id: key.slice(legacy.prefix.length) });
+        migrated.push(key);
+      } catch (e) {
+        // Unreadable records stay in localStorage rather than being lost
+        console.error('Failed to migrate legacy record:', key);
+      }
+    }
+    return migrated;
+  }
+}
+
+const timestampOf = (record: StoredRecord) => new Date(record.createdAt || record.date).getTime() || 0;
+
+export type RepositoryListener = () => void;
+
+export type RecordUpgrader<T> = (raw: unknown) => UpgradeResult<T>;
+
+interface RepositoryOptions<T> {
+  upgrade?: RecordUpgrader<T>;
+  quarantine?: QuarantineRepository;
+}
+
+/** Typed CRUD access to one object store, with change notifications for live views. */
+export class Repository<T extends StoredRecord> {
+  private readonly listeners = new Set<RepositoryListener>();
+
+  constructor(
+    protected readonly db: Database,
+    protected readonly storeName: StoreName,
+    private readonly options: RepositoryOptions<T> = {},
+  ) {}
+
+  /** All readable records, newest first. Corrupt records are quarantined and skipped. */
+  async list(): Promise<T[]> {
+    const tx = await this.db.transaction(this.storeName, 'readonly');
+    const rawRecords = await requestToPromise(tx.objectStore(this.storeName).getAll());
+    const records: T[] = [];
+    for (const raw of rawRecords) {
+      const record = await this.load(raw);
+      if (record) records.push(record);
+    }
+    return records.sort((a, b) => timestampOf(b) - timestampOf(a));
+  }
+
+  async get(id: string): Promise<T | null> {
+    const tx = await this.db.transaction(this.storeName, 'readonly');
+    const raw = await requestToPromise(tx.objectStore(this.storeName).get(id));
+    return raw === undefined ? null : this.load(raw);
+  }
+
+  async count(): Promise<number> {
+    const tx = await this.db.transaction(this.storeName, 'readonly');
+    return requestToPromise(tx.objectStore(this.storeName).count());
+  }
+
+  async save(record: T): Promise<void> {
+    await this.put(record);
+    this.notify();
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.remove(id);
+    this.notify();
+  }
+
+  /**
+   * Reads, changes and writes one record in a single transaction, so quick successive
+   * updates each build on the last rather than overwriting it. Null if the record is gone.
+   */
+  async update(id: string, change: (record: T) => T): Promise<T | null> {
+    const tx = await this.db.transaction(this.storeName, 'readwrite');
+    const store = tx.objectStore(this.storeName);
+    const raw = await requestToPromise(store.get(id));
+    if (raw === undefined) return null;
+
+    const { upgrade } = this.options;
+    const updated = change(upgrade ? upgrade(raw).record : raw as T);
+    store.put(updated);
+    await transactionDone(tx);
+    this.notify();
+    return updated;
+  }
+
+  async clear(): Promise<void> {
+    const tx = await this.db.transaction(this.storeName, 'readwrite');
+    tx.objectStore(this.storeName).clear();
+    await transactionDone(tx);
+    this.notify();
+  }
+
+  /** Registers a change listener and returns the matching unsubscribe function. */
+  subscribe(listener: RepositoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async put(record: unknown): Promise<void> {
+    const tx = await this.db.transaction(this.storeName, 'readwrite');
+    tx.objectStore(this.storeName).put(record);
+    await transactionDone(tx);
+  }
+
+  private async remove(id: string): Promise<void> {
+    const tx = await this.db.transaction(this.storeName, 'readwrite');
+    tx.objectStore(this.storeName).delete(id);
+    await transactionDone(tx);
+  }
+
+  // Upgrades a stored record to the current schema. Migrated records are written back
+  // so the chain only runs once; unrepairable ones are moved to quarantine.
+  private async load(raw: unknown): Promise<T | null> {
+    const { upgrade, quarantine } = this.options;
+    if (!upgrade) return raw as T;
+
+    try {
+      const { record, migrated } = upgrade(raw);
+      if (migrated) {
+        await this.put(record).catch(e => console.warn('Failed to store migrated record:', e));
+      }
+      return record;
+    } catch (e) {
+      if (!(e instanceof RecordValidationError)) throw e;
+      const id = (raw as { id?: unknown })?.id;
+      if (quarantine && typeof id === 'string') {
+        // A failed move only skips this record; the rest of the list still loads
+        try {
+          await quarantine.add(this.storeName, id, raw, e.message);
+          await this.remove(id);
+        } catch (moveError) {
+          console.error(`Failed to quarantine record ${id} in ${this.storeName}:`, moveError);
+        }
+      } else {
+        console.error(`Unreadable record in ${this.storeName}:`, e.message);
+      }
+      return null;
+    }
+  }
+}
+
+export interface QuarantinedRecord extends StoredRecord {
+  store: string;
+  recordId: string;
+  reason: string;
+  record: unknown; // The original record, exactly as it was stored
+}
+
+/** Holds records that failed validation, so they can be exported instead of silently lost. */
+export class QuarantineRepository extends Repository<QuarantinedRecord> {
+  constructor(db: Database) {
+    super(db, STORE_NAMES.quarantine);
+  }
+
+  async add(store: string, recordId: string, record: unknown, reason: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.save({ id: `${store}:${recordId}`, store, recordId, reason, record, date: now, createdAt: now });
+  }
+}
+
+export interface CacheEntry extends StoredRecord {
+  value: unknown;
+  expiresAt: string;
+}
+
+/** Geocoding and routing answers, keyed by lookup. Entries past expiresAt are ignored. */
+export class RouteCacheRepository extends Repository<CacheEntry> {
+  constructor(db: Database) {
+    super(db, STORE_NAMES.routeCache);
+  }
+
+  /** Removes every entry that expired before `now`, returning how many went. */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const tx = await this.db.transaction(this.storeName, 'readwrite');
+    const cursorRequest = tx.objectStore(this.storeName).openCursor();
+    let deleted = 0;
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (new Date((cursor.value as CacheEntry).expiresAt).getTime() <= now.getTime()) {
+        cursor.delete();
+        deleted++;
+      }
+      cursor.continue();
+    };
+    await transactionDone(tx);
+    if (deleted > 0) this.notify();
+    return deleted;
+  }
+}
+
+/** Audio recordings attached to jobs, with their transcripts once made. */
+export class VoiceNoteRepository extends Repository<VoiceNote> {
+  constructor(db: Database) {
+    super(db, STORE_NAMES.voiceNotes);
+  }
+
+  /** A job's recordings, oldest first. */
+  async listForJob(jobId: string): Promise<VoiceNote[]> {
+    const tx = await this.db.transaction(this.storeName, 'readonly');
+    const notes: VoiceNote[] = await requestToPromise(tx.objectStore(this.storeName).index('jobId').getAll(jobId));
+    return notes.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /** Removes every recording for the given jobs, e.g. when their worksheet is deleted. */
+  async deleteForJobs(jobIds: string[]): Promise<void> {
+    const tx = await this.db.transaction(this.storeName, 'readwrite');
+    const store = tx.objectStore(this.storeName);
+    for (const jobId of jobIds) {
+      const keys = await requestToPromise(store.index('jobId').getAllKeys(jobId));
+      keys.forEach(key => store.delete(key));
+    }
+    await transactionDone(tx);
+    this.notify();
+  }
+}
+
+/** Local assistant chats, so they can be resumed later. */
+export class ConversationRepository extends Repository<AssistantConversation> {
+  constructor(db: Database) {
+    super(db, STORE_NAMES.conversations);
+  }
+}
+
+export class WorksheetRepository extends Repository<WorksheetData> {
+  constructor(db: Database, quarantine?: QuarantineRepository) {
+    super(db, STORE_NAMES.worksheets, { upgrade: upgradeWorksheet, quarantine });
+  }
+}
+
+export class MessagesRepository extends Repository<SavedMessages> {
+  constructor(db: Database, quarantine?: QuarantineRepository) {
+    super(db, STORE_NAMES.messages, { upgrade: upgradeMessages, quarantine });
+  }
+}
+
+export const database = new Database();
+export const quarantineRepository = new QuarantineRepository(database);
+export const worksheetRepository = new WorksheetRepository(database, quarantineRepository);
+export const messagesRepository = new MessagesRepository(database, quarantineRepository);
+export const routeCacheRepository = new RouteCacheRepository(database);
+export const voiceNoteRepository = new VoiceNoteRepository(database);
+export const conversationRepository = new ConversationRepository(database);
@@ -0,0 +1,46 @@
+import type { JobData, JobTextField } from '../types';
+
+export interface JobColumn {
+  key: JobTextField;
+  label: string;
+}
+
+// Column order matches the worksheet layout engineers paste into Sheets.
+export const JOB_COLUMNS: JobColumn[] = [
+  { key: 'time', label: 'Time' },
+  { key: 'address', label: 'Address' },
+  { key: 'productCode', label: 'Product Code' },
+  { key: 'productType', label: 'Product Type' },
+  { key: 'productBrand', label: 'Product Brand' },
+  { key: 'fault', label: 'Description of Fault' },
+  { key: 'errorCode', label: 'Error Code' },
+  { key: 'productionYear', label: 'Production Year' },
+  { key: 'serialNumber', label: 'Serial Number' },
+  // Added after the original layout, so it goes last to keep existing sheets lined up
+  { key: 'customerName', label: 'Customer' },
+  { key: 'customerPhone', label: 'Phone' },
+];
+
+const flatten = (value: string) => value.replace(/\r?\n/g, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeMarkdownCell = (value: string) => flatten(value).replace(/\|/g, '\\|');
+
+const escapeTsvCell = (value: string) => flatten(value.replace(/\t/g, ' '));
+
+/**
+ * Builds the legacy "title line + markdown table" export. Pipes inside cells are
+ * escaped so addresses like "Flat 2 | Rear" can't shift columns.
+ */
+export const jobsToMarkdown = (jobs: JobData[], title?: string): string => {
+  const header = `| ${JOB_COLUMNS.map(c => c.label).join(' | ')} |`;
+  const separator = `| ${JOB_COLUMNS.map(() => '---').join(' | ')} |`;
+  const rows = jobs.map(job => `| ${JOB_COLUMNS.map(c => escapeMarkdownCell(job[c.key] || '')).join(' | ')} |`);
+  const lines = [header, separator, ...rows];
+  return title ? [title, '', ...lines].join('\n') : lines.join('\n');
+};
+
+export const jobsToTsv = (jobs: JobData[]): string => {
+  const header = JOB_COLUMNS.map(c => c.label).join('\t');
+  const rows = jobs.map(job => JOB_COLUMNS.map(c => escapeTsvCell(job[c.key] || '')).join('\t'));
+  return [header, ...rows].join('\n');
+};
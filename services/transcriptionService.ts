@@ -0,0 +1,180 @@
+import WhisperWorker from '../workers/whisper.worker.ts?worker';
+import { loadTranscriptionSettings, type WhisperModelId } from './settings';
+
+// One Whisper worker for the whole app. It isn't created until something needs it (the
+// first mic tap, or a download from Settings), and requests from every job card share
+// its queue. Changing the model in Settings takes effect on the next request.
+
+export const WHISPER_MODELS: { id: WhisperModelId; label: string; repo: string; sizeMb: number }[] = [
+  { id: 'tiny.en', label: 'Tiny (English)', repo: 'Xenova/whisper-tiny.en', sizeMb: 40 },
+  { id: 'base.en', label: 'Base (English)', repo: 'Xenova/whisper-base.en', sizeMb: 80 },
+  { id: 'small.en', label: 'Small (English)', repo: 'Xenova/whisper-small.en', sizeMb: 250 },
+  { id: 'large-v3-turbo', label: 'Large v3 Turbo', repo: 'Xenova/whisper-large-v3-turbo', sizeMb: 800 },
+];
+
+export type TranscriptionStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface TranscriptionState {
+  status: TranscriptionStatus;
+  model: WhisperModelId | null; // Loaded, or being loaded
+  progress: number; // 0-100 across all files of the model being downloaded
+  error: string | null;
+}
+
+interface PendingRequest {
+  id: number;
+  audio: Float32Array;
+  partial: boolean;
+  resolve: (text: string) => void;
+  reject: (error: Error) => void;
+}
+
+let state: TranscriptionState = { status: 'idle', model: null, progress: 0, error: null };
+const listeners = new Set<() => void>();
+
+let worker: Worker | null = null;
+let loading: {
+  model: WhisperModelId;
+  sent: boolean; // Held back until the request in flight finishes, so the model isn't swapped under it
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+} | null = null;
+const fileProgress = new Map<string, { loaded: number; total: number }>();
+
+const queue: PendingRequest[] = [];
+let active: PendingRequest | null = null;
+let nextId = 1;
+
+const setState = (update: Partial<TranscriptionState>) => {
+  state = { ...state, ...update };
+  listeners.forEach(listener => listener());
+};
+
+export const getTranscriptionState = (): TranscriptionState => state;
+
+export const subscribeTranscriptionState = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const repoFor = (model: WhisperModelId) =>
+  (WHISPER_MODELS.find(m => m.id === model) ?? WHISPER_MODELS[0]).repo;
+
+const handleProgress = (data: { status: string; file?: string; loaded?: number; total?: number }) => {
+  if (data.status !== 'progress' || !data.file || !data.total) return;
+  fileProgress.set(data.file, { loaded: data.loaded ?? 0, total: data.total });
+  let loaded = 0;
+  let total = 0;
+  fileProgress.forEach(file => {
+    loaded += file.loaded;
+    total += file.total;
+  });
+  setState({ progress: total > 0 ? Math.round((loaded / total) * 100) : 0 });
+};
+
+const sendLoad = () => {
+  if (!loading || loading.sent || active) return;
+  loading.sent = true;
+  getWorker().postMessage({ type: 'load', model: repoFor(loading.model) });
+};
+
+const dispatchNext = () => {
+  if (active || state.status !== 'ready' || !worker) return;
+  active = queue.shift() ?? null;
+  if (!active) return;
+  // The buffer is transferred, not copied; callers hand over ownership
+  worker.postMessage(
+    { type: 'transcribe', id: active.id, audio: active.audio, partial: active.partial },
+    [active.audio.buffer],
+  );
+};
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new WhisperWorker();
+  worker.onmessage = (event) => {
+    const { type, id, model, text, error, data } = event.data;
+    // Messages about a model that has since been superseded in Settings are ignored
+    const isCurrentLoad = loading !== null && model === repoFor(loading.model);
+    if (type === 'progress') {
+      if (isCurrentLoad) handleProgress(data);
+    } else if ((type === 'ready' || type === 'load_error') && !isCurrentLoad) {
+      return;
+    } else if (type === 'ready') {
+      setState({ status: 'ready', progress: 100, error: null });
+      loading!.resolve();
+      loading = null;
+      dispatchNext();
+    } else if (type === 'load_error') {
+      setState({ status: 'error', error });
+      loading!.reject(new Error(error));
+      loading = null;
+      // Nothing queued can run without a model
+      queue.splice(0).forEach(request => request.reject(new Error(error)));
+    } else if (type === 'result' || type === 'error') {
+      const request = active;
+      active = null;
+      if (request && request.id === id) {
+        if (type === 'result') request.resolve(text);
+        else request.reject(new Error(error));
+      }
+      sendLoad();
+      dispatchNext();
+    }
+  };
+  return worker;
+};
+
+/**
+ * Loads the model chosen in Settings if it isn't already loaded. Resolves once it's
+ * ready; safe to call repeatedly.
+ */
+export const loadTranscriptionModel = (): Promise<void> => {
+  const { model } = loadTranscriptionSettings();
+  if (state.status === 'ready' && state.model === model) return Promise.resolve();
+  if (loading?.model === model) return loading.promise;
+
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // A load already under way for another model is superseded; the worker loads both in turn
+  loading?.resolve();
+  loading = { model, sent: false, promise, resolve, reject };
+  fileProgress.clear();
+  setState({ status: 'loading', model, progress: 0, error: null });
+  sendLoad();
+  return promise;
+};
+
+const enqueue = (audio: Float32Array, partial: boolean): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    queue.push({ id: nextId++, audio, partial, resolve, reject });
+  });
+
+/**
+ * Transcribes 16kHz mono audio, queued behind any other card's requests, loading the
+ * model chosen in Settings first if need be. `partial` marks a provisional transcript
+ * of speech still in progress.
+ */
+export const transcribe = (audio: Float32Array, partial = false): Promise<string> => {
+  const request = enqueue(audio, partial);
+  loadTranscriptionModel().then(dispatchNext, () => undefined);
+  return request;
+};
+
+/**
+ * Like transcribe, but with whichever model is already loaded; it never starts a
+ * download. Rejects straight away when no model is ready.
+ */
+export const transcribeWithLoadedModel = (audio: Float32Array): Promise<string> => {
+  if (state.status !== 'ready') return Promise.reject(new Error('No transcription model loaded'));
+  const request = enqueue(audio, false);
+  dispatchNext();
+  return request;
+};
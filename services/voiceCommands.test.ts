@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseVoiceCommand, type VoiceCommand } from './voiceCommands';
+
+const cases: [string, VoiceCommand][] = [
+  // Status changes
+  ['Mark job three complete.', { type: 'set_status', jobNumber: 3, status: 'completed' }],
+  ['mark job 3 as completed', { type: 'set_status', jobNumber: 3, status: 'completed' }],
+  ['Job number two, no access', { type: 'set_status', jobNumber: 2, status: 'no_access' }],
+  ['Mark the second job as parts required', { type: 'set_status', jobNumber: 2, status: 'parts_required' }],
+  ['job 4 on site', { type: 'set_status', jobNumber: 4, status: 'on_site' }],
+  ['Mark job for done', { type: 'set_status', jobNumber: 4, status: 'completed' }],
+  ['Mark complete', { type: 'set_status', jobNumber: null, status: 'completed' }],
+  ['OK, mark as travelling', { type: 'set_status', jobNumber: null, status: 'travelling' }],
+  ['This job is cancelled', { type: 'set_status', jobNumber: null, status: 'cancelled' }],
+
+  // Notes keep their wording
+  ['Add note: door seal torn', { type: 'add_note', jobNumber: null, text: 'Door seal torn' }],
+  ['note, customer wants a call back after 3', { type: 'add_note', jobNumber: null, text: 'Customer wants a call back after 3' }],
+  ['Add a note to job 2: pump blocked with coins.', { type: 'add_note', jobNumber: 2, text: 'Pump blocked with coins.' }],
+  ['add note for job three - needs two people', { type: 'add_note', jobNumber: 3, text: 'Needs two people' }],
+
+  // Moving between jobs
+  ['Next job.', { type: 'select_job', target: 'next' }],
+  ['go to the next job', { type: 'select_job', target: 'next' }],
+  ['Previous job', { type: 'select_job', target: 'previous' }],
+  ['Go back', { type: 'select_job', target: 'previous' }],
+  ['Open job five', { type: 'select_job', target: 5 }],
+  ['go to the 3rd job', { type: 'select_job', target: 3 }],
+
+  // Reading the fault
+  ['Read fault', { type: 'read_fault', jobNumber: null }],
+  ["What's the fault?", { type: 'read_fault', jobNumber: null }],
+  ['Read the fault for job two', { type: 'read_fault', jobNumber: 2 }],
+  ['read job 4 fault', { type: 'read_fault', jobNumber: 4 }],
+
+  // Error codes, spoken or spelt
+  ['Set error code E08', { type: 'set_error_code', jobNumber: null, code: 'E08' }],
+  ['error code is e zero eight', { type: 'set_error_code', jobNumber: null, code: 'E08' }],
+  ['Set error code to F-21', { type: 'set_error_code', jobNumber: null, code: 'F21' }],
+  ['set job 2 error code to oh four', { type: 'set_error_code', jobNumber: 2, code: '04' }],
+  ['error code four C', { type: 'set_error_code', jobNumber: null, code: '4C' }],
+];
+
+describe('parseVoiceCommand', () => {
+  it.each(cases)('parses "%s"', (transcript, expected) => {
+    expect(parseVoiceCommand(transcript)).toEqual(expected);
+  });
+
+  // Anything that isn't a command is dictated into the active job's notes
+  it.each([
+    '',
+    '   ',
+    'The drum bearing is worn and the drain pump is noisy',
+    'Customer says it stopped working on Tuesday',
+    'Complete rebuild of the door hinge',
+    'next week the part should arrive',
+    'read the manual before fitting',
+    'set error code to something unreadable like this',
+    'error code is unknown',
+    'error code not shown',
+    'error code blank',
+    'set error code to none',
+    'error code is constructor',
+    'mark job seventy complete please',
+  ])('falls through to dictation for "%s"', transcript => {
+    expect(parseVoiceCommand(transcript)).toBeNull();
+  });
+});
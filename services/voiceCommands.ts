@@ -0,0 +1,142 @@
+import type { JobStatus } from '../types';
+
+// Hands-free commands recognised in dictated transcripts. Anything that doesn't parse
+// as a command is treated as dictation by the caller. Job numbers are 1-based as shown
+// on the worksheet; a null job means the job currently selected for voice control.
+
+export type VoiceCommand =
+  | { type: 'set_status'; jobNumber: number | null; status: JobStatus }
+  | { type: 'add_note'; jobNumber: number | null; text: string }
+  | { type: 'select_job'; target: number | 'next' | 'previous' }
+  | { type: 'read_fault'; jobNumber: number | null }
+  | { type: 'set_error_code'; jobNumber: number | null; code: string };
+
+const DIGIT_WORDS: Record<string, number> = {
+  zero: 0, oh: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  ...DIGIT_WORDS,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20,
+  // Whisper sometimes hears these for short job numbers
+  won: 1, to: 2, too: 2, for: 4, ate: 8,
+};
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+// Longer phrases come before their prefixes ("completed" before "complete")
+const STATUS_PHRASES: [string, JobStatus][] = [
+  ['parts required', 'parts_required'],
+  ['parts needed', 'parts_required'],
+  ['needs parts', 'parts_required'],
+  ['no access', 'no_access'],
+  ['nobody home', 'no_access'],
+  ['on site', 'on_site'],
+  ['arrived', 'on_site'],
+  ['travelling', 'travelling'],
+  ['traveling', 'travelling'],
+  ['on my way', 'travelling'],
+  ['completed', 'completed'],
+  ['complete', 'completed'],
+  ['finished', 'completed'],
+  ['done', 'completed'],
+  ['cancelled', 'cancelled'],
+  ['canceled', 'cancelled'],
+  ['pending', 'pending'],
+];
+
+const NUMBER = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+const ORDINAL = `(${Object.keys(ORDINAL_WORDS).join('|')}|\\d+(?:st|nd|rd|th))`;
+const STATUS = `(${STATUS_PHRASES.map(([phrase]) => phrase).join('|')})`;
+// "job three", "job number 3", "the third job"
+const JOB_REF = `(?:job (?:number )?${NUMBER}|(?:the )?${ORDINAL} job)`;
+
+const parseNumber = (word: string | undefined): number | null => {
+  if (!word) return null;
+  if (/^\d+/.test(word)) return parseInt(word, 10);
+  return NUMBER_WORDS[word] ?? ORDINAL_WORDS[word] ?? null;
+};
+
+/** The job number from a JOB_REF match, which fills one of two capture groups. */
+const jobNumberFrom = (cardinal: string | undefined, ordinal: string | undefined) =>
+  parseNumber(cardinal) ?? parseNumber(ordinal);
+
+const statusFrom = (phrase: string) => STATUS_PHRASES.find(([p]) => p === phrase)![1];
+
+/** Lower case, punctuation stripped and whitespace collapsed, as commands are matched. */
+const normalise = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// A few letters then digits, e.g. "E08", "F21", "04" or "4C". Codes always carry a digit,
+// which keeps words like "unknown" or "blank" from being taken for one.
+const ERROR_CODE_PATTERN = /^[A-Z]{0,3}\d{1,4}[A-Z]?$/;
+
+/** "E zero eight", "e-08" and "E. 08" all become "E08"; anything not shaped like a code is null. */
+const normaliseErrorCode = (spoken: string): string | null => {
+  const code = normalise(spoken)
+    .split(' ')
+    .map(word => (Object.prototype.hasOwnProperty.call(DIGIT_WORDS, word) ? String(DIGIT_WORDS[word]) : word))
+    .join('')
+    .toUpperCase();
+  return ERROR_CODE_PATTERN.test(code) ? code : null;
+};
+
+const match = (text: string, pattern: string) => new RegExp(`^${pattern}$`).exec(text);
+
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const text = normalise(transcript.replace(/^(?:ok|okay|right|so)[,.]?\s+/i, ''));
+  if (!text) return null;
+
+  // Notes keep the speaker's wording, so they're cut from the original transcript
+  const note = /^\s*(?:ok(?:ay)?[,.]?\s+)?(?:add (?:a )?note|note)(?:\s+(?:to|for|on)\s+job\s+(\S+?))?\s*[:,.\-–]?\s+(.+)$/i.exec(transcript);
+  if (note) {
+    const noteText = note[2].trim().replace(/^[:,.\-–]\s*/, '');
+    const jobNumber = note[1] ? parseNumber(normalise(note[1])) : null;
+    if (noteText && (!note[1] || jobNumber !== null)) {
+      return { type: 'add_note', jobNumber, text: noteText.charAt(0).toUpperCase() + noteText.slice(1) };
+    }
+  }
+
+  let m: RegExpExecArray | null;
+
+  // "mark job three complete", "mark the second job as no access", "job 3 done", "mark complete"
+  if ((m = match(text, `(?:mark |set )?${JOB_REF} (?:as )?${STATUS}`))) {
+    return { type: 'set_status', jobNumber: jobNumberFrom(m[1], m[2]), status: statusFrom(m[3]) };
+  }
+  if ((m = match(text, `(?:mark|set) (?:(?:it|this|this job|job) )?(?:as )?${STATUS}`))) {
+    return { type: 'set_status', jobNumber: null, status: statusFrom(m[1]) };
+  }
+  if ((m = match(text, `(?:this )?job (?:is )?${STATUS}`))) {
+    return { type: 'set_status', jobNumber: null, status: statusFrom(m[1]) };
+  }
+
+  if (match(text, '(?:go to |open )?(?:the )?next job')) return { type: 'select_job', target: 'next' };
+  if (match(text, '(?:go to |open )?(?:the )?(?:previous|last) job|go back')) return { type: 'select_job', target: 'previous' };
+  if ((m = match(text, `(?:go to|open|select) ${JOB_REF}`))) {
+    const jobNumber = jobNumberFrom(m[1], m[2]);
+    if (jobNumber !== null) return { type: 'select_job', target: jobNumber };
+  }
+
+  // "read fault", "read the fault for job 2", "what's the fault"
+  if ((m = match(text, `(?:read (?:out )?(?:the )?fault|what s the fault|what is the fault)(?: (?:for|on) ${JOB_REF})?`))) {
+    return { type: 'read_fault', jobNumber: jobNumberFrom(m[1], m[2]) };
+  }
+  if ((m = match(text, `read ${JOB_REF} fault`))) {
+    return { type: 'read_fault', jobNumber: jobNumberFrom(m[1], m[2]) };
+  }
+
+  // "set error code E08", "error code is e zero eight", "set job 2 error code to F03"
+  if ((m = match(text, `(?:set )?(?:${JOB_REF} )?(?:the )?error code (?:to |is |as )?(.+)`))) {
+    const code = normaliseErrorCode(m[3]);
+    if (code) return { type: 'set_error_code', jobNumber: jobNumberFrom(m[1], m[2]), code };
+  }
+
+  return null;
+};
@@ -0,0 +1,128 @@
+import type { VoiceNote } from '../types';
+import { voiceNoteRepository } from './storage';
+import { SAMPLE_RATE } from './voiceSegmenter';
+import { getTranscriptionState, subscribeTranscriptionState, transcribeWithLoadedModel } from './transcriptionService';
+
+// Dictation is also kept as a compressed recording on the job, so nothing said is lost
+// if the speech model wasn't ready or the page closed first. Recordings that live
+// dictation couldn't fully transcribe are worked through in the background whenever
+// a model is loaded.
+
+export interface VoiceRecording {
+  audio: Blob;
+  mimeType: string;
+  durationSeconds: number;
+  transcript: string | null; // From live dictation, when every utterance was transcribed
+}
+
+// Opus is far smaller than the raw PCM; Safari only records AAC in MP4
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export const pickRecordingType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined' ? undefined : RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+const FILE_EXTENSIONS: Record<string, string> = { webm: 'webm', ogg: 'ogg', mp4: 'm4a' };
+
+/** File name for exporting a note's audio or transcript, e.g. "job-note-2024-05-01-0930.webm". */
+export const voiceNoteFileName = (note: VoiceNote, kind: 'audio' | 'transcript') => {
+  const stamp = note.createdAt.slice(0, 16).replace('T', '-').replace(':', '');
+  const subtype = note.mimeType.split('/')[1]?.split(';')[0] ?? '';
+  return `job-note-${stamp}.${kind === 'transcript' ? 'txt' : FILE_EXTENSIONS[subtype] ?? 'audio'}`;
+};
+
+export const saveVoiceNote = async (jobId: string, recording: VoiceRecording): Promise<void> => {
+  const now = new Date().toISOString();
+  await voiceNoteRepository.save({
+    id: `${jobId}-${Date.now().toString(36)}`,
+    jobId,
+    audio: recording.audio,
+    mimeType: recording.mimeType,
+    durationSeconds: recording.durationSeconds,
+    transcript: recording.transcript,
+    status: recording.transcript === null ? 'pending' : 'done',
+    date: now,
+    createdAt: now,
+  });
+};
+
+/** Decodes a recording to the 16kHz mono samples Whisper takes. */
+const decodeForTranscription = async (audio: Blob): Promise<Float32Array> => {
+  // Decoding through a context at the target rate resamples as part of the decode
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0).slice();
+
+  const mixed = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mixed[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mixed;
+};
+
+const transcribeNote = async (note: VoiceNote) => {
+  await voiceNoteRepository.save({ ...note, status: 'transcribing', error: undefined });
+  // The note may have been deleted while it was being transcribed
+  const stillExists = async () => (await voiceNoteRepository.get(note.id)) !== null;
+  try {
+    const audio = await decodeForTranscription(note.audio);
+    // The model may have been switched meanwhile; the note is picked up again once it's ready
+    if (getTranscriptionState().status !== 'ready') return;
+    const transcript = (await transcribeWithLoadedModel(audio)).trim();
+    if (await stillExists()) await voiceNoteRepository.save({ ...note, transcript, status: 'done', error: undefined });
+  } catch (e) {
+    console.error('Failed to transcribe voice note:', e);
+    if (!(await stillExists())) return;
+    await voiceNoteRepository.save({
+      ...note,
+      status: 'failed',
+      error: e instanceof Error ? e.message : 'Transcription failed',
+    });
+  }
+};
+
+/** Puts a failed recording back in the queue. */
+export const retryVoiceNote = (note: VoiceNote) =>
+  voiceNoteRepository.save({ ...note, status: 'pending', error: undefined });
+
+let isWorking = false;
+let hasMoreWork = false; // Set when asked to run while already running
+
+const transcribePending = async () => {
+  if (getTranscriptionState().status !== 'ready') return;
+  if (isWorking) {
+    hasMoreWork = true;
+    return;
+  }
+  isWorking = true;
+  hasMoreWork = false;
+  try {
+    // Oldest first; a note interrupted mid-transcription (page closed) is picked up again
+    const notes = (await voiceNoteRepository.list()).reverse();
+    for (const note of notes) {
+      if (note.status !== 'pending' && note.status !== 'transcribing') continue;
+      if (getTranscriptionState().status !== 'ready') break;
+      await transcribeNote(note);
+    }
+  } catch (e) {
+    console.error('Failed to process voice notes:', e);
+  } finally {
+    isWorking = false;
+  }
+  if (hasMoreWork) transcribePending();
+};
+
+/**
+ * Transcribes waiting recordings whenever a speech model is ready and new ones are
+ * saved, using whichever model is loaded. It never starts a model download itself.
+ * Returns a stop function.
+ */
+export const startVoiceNoteTranscriber = (): (() => void) => {
+  const unsubscribeModel = subscribeTranscriptionState(transcribePending);
+  const unsubscribeNotes = voiceNoteRepository.subscribe(transcribePending);
+  transcribePending();
+  return () => {
+    unsubscribeModel();
+    unsubscribeNotes();
+  };
+};
@@ -0,0 +1,152 @@
+// Splits a live 16kHz microphone stream into utterances for transcription. Audio goes
+// into a fixed-size ring buffer, so memory stays flat however long the dictation runs.
+// An energy-based voice activity detector ends a segment at each pause, and the
+// segment so far is offered for a partial transcript while the speaker is still talking.
+
+export const SAMPLE_RATE = 16000;
+
+const samplesIn = (ms: number) => (SAMPLE_RATE / 1000) * ms;
+
+const FRAME_SAMPLES = samplesIn(30); // VAD decisions are made per 30ms frame
+const PRE_ROLL_SAMPLES = samplesIn(300); // Kept before speech starts so first syllables aren't clipped
+const END_SILENCE_SAMPLES = samplesIn(700); // A pause this long ends the segment
+const MIN_SPEECH_SAMPLES = samplesIn(250); // Shorter bursts are treated as noise
+const PARTIAL_INTERVAL_SAMPLES = samplesIn(1500);
+// Whisper works on 30s windows; cutting a little earlier keeps each segment to one pass
+const MAX_SEGMENT_SAMPLES = samplesIn(25000);
+const RING_CAPACITY = MAX_SEGMENT_SAMPLES + PRE_ROLL_SAMPLES + FRAME_SAMPLES;
+
+const MIN_SPEECH_RMS = 0.01;
+const NOISE_FLOOR_FACTOR = 3;
+
+export interface RingBuffer {
+  write: (samples: Float32Array) => void;
+  /** Copies the most recent `count` samples, oldest first. */
+  readLast: (count: number) => Float32Array;
+  readonly length: number;
+  clear: () => void;
+}
+
+export const createRingBuffer = (capacity: number): RingBuffer => {
+  const data = new Float32Array(capacity);
+  let writeIndex = 0;
+  let length = 0;
+
+  return {
+    write(samples) {
+      // Only the tail can survive if more arrives than fits
+      const input = samples.length > capacity ? samples.subarray(samples.length - capacity) : samples;
+      const firstPart = Math.min(input.length, capacity - writeIndex);
+      data.set(input.subarray(0, firstPart), writeIndex);
+      data.set(input.subarray(firstPart), 0);
+      writeIndex = (writeIndex + input.length) % capacity;
+      length = Math.min(capacity, length + input.length);
+    },
+    readLast(count) {
+      const n = Math.min(count, length);
+      const out = new Float32Array(n);
+      const start = (writeIndex - n + capacity) % capacity;
+      const firstPart = Math.min(n, capacity - start);
+      out.set(data.subarray(start, start + firstPart));
+      out.set(data.subarray(0, n - firstPart), firstPart);
+      return out;
+    },
+    get length() {
+      return length;
+    },
+    clear() {
+      writeIndex = 0;
+      length = 0;
+    },
+  };
+};
+
+const rms = (frame: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length);
+};
+
+export interface VoiceSegmenterCallbacks {
+  onPartial: (audio: Float32Array) => void; // The utterance so far, while still speaking
+  onSegment: (audio: Float32Array) => void; // A finished utterance
+}
+
+export const createVoiceSegmenter = ({ onPartial, onSegment }: VoiceSegmenterCallbacks) => {
+  const ring = createRingBuffer(RING_CAPACITY);
+  const frame = new Float32Array(FRAME_SAMPLES);
+  let frameLength = 0;
+
+  let noiseFloor = MIN_SPEECH_RMS / NOISE_FLOOR_FACTOR;
+  let inSpeech = false;
+  let segmentSamples = 0; // Length of the current segment, including pre-roll
+  let speechSamples = 0;
+  let silenceSamples = 0;
+  let sinceLastPartial = 0;
+
+  const endSegment = () => {
+    if (speechSamples >= MIN_SPEECH_SAMPLES) {
+      // Trailing silence is dropped; Whisper tends to invent words in it
+      onSegment(ring.readLast(segmentSamples).slice(0, segmentSamples - silenceSamples));
+    }
+    inSpeech = false;
+    segmentSamples = 0;
+    speechSamples = 0;
+    silenceSamples = 0;
+    sinceLastPartial = 0;
+  };
+
+  const processFrame = () => {
+    ring.write(frame);
+    const level = rms(frame);
+    const isVoice = level > Math.max(MIN_SPEECH_RMS, noiseFloor * NOISE_FLOOR_FACTOR);
+
+    if (!inSpeech) {
+      // Track background noise only while nobody is talking
+      noiseFloor = noiseFloor * 0.95 + level * 0.05;
+      if (!isVoice) return;
+      inSpeech = true;
+      segmentSamples = Math.min(ring.length, PRE_ROLL_SAMPLES + FRAME_SAMPLES);
+    } else {
+      segmentSamples += FRAME_SAMPLES;
+    }
+
+    if (isVoice) {
+      speechSamples += FRAME_SAMPLES;
+      silenceSamples = 0;
+    } else {
+      silenceSamples += FRAME_SAMPLES;
+    }
+    sinceLastPartial += FRAME_SAMPLES;
+
+    if (silenceSamples >= END_SILENCE_SAMPLES || segmentSamples >= MAX_SEGMENT_SAMPLES) {
+      endSegment();
+    } else if (sinceLastPartial >= PARTIAL_INTERVAL_SAMPLES && speechSamples >= MIN_SPEECH_SAMPLES) {
+      sinceLastPartial = 0;
+      onPartial(ring.readLast(segmentSamples));
+    }
+  };
+
+  return {
+    /** Feeds 16kHz mono samples in whatever batch size they arrive. */
+    push(samples: Float32Array) {
+      let offset = 0;
+      while (offset < samples.length) {
+        const take = Math.min(FRAME_SAMPLES - frameLength, samples.length - offset);
+        frame.set(samples.subarray(offset, offset + take), frameLength);
+        frameLength += take;
+        offset += take;
+        if (frameLength === FRAME_SAMPLES) {
+          processFrame();
+          frameLength = 0;
+        }
+      }
+    },
+    /** Ends any utterance in progress, e.g. when the microphone is turned off. */
+    flush() {
+      if (inSpeech) endSegment();
+      frameLength = 0;
+      ring.clear();
+    },
+  };
+};
@@ -1,10 +1,47 @@
 export interface ProcessedData {
-  dataTable: string;
-  notifications: string[];
+  scheduleDate: string;
+  jobs: JobData[];
+}
+
+export type JobTextField =
+  | 'time'
+  | 'customerName'
+  | 'customerPhone'
+  | 'address'
+  | 'productCode'
+  | 'productType'
+  | 'productBrand'
+  | 'fault'
+  | 'errorCode'
+  | 'productionYear'
+  | 'serialNumber';
+
+export interface FieldProvenance {
+  confidence: number; // 0-1, as reported by the extractor
+  sourceImage: number; // Index into the uploaded screenshots
+  box?: [number, number, number, number]; // ymin, xmin, ymax, xmax on a 0-1000 grid
+  snippet?: string; // Cropped JPEG data URL, kept so saved worksheets can show the source
+}
+
+export type JobStatus =
+  | 'pending'
+  | 'travelling'
+  | 'on_site'
+  | 'completed'
+  | 'no_access'
+  | 'parts_required'
+  | 'cancelled';
+
+export interface JobStatusChange {
+  status: JobStatus;
+  at: string; // ISO timestamp
 }
 
 export interface JobData {
+  id: string; // Stable across reorders and edits; comments, slots and messages are keyed by it
   time: string;
+  customerName: string;
+  customerPhone: string;
   address: string;
   productCode: string;
   productType: string;
@@ -13,23 +50,52 @@ export interface JobData {
   errorCode: string;
   productionYear: string;
   serialNumber: string;
+  serialFlag?: string; // Why productionYear could not be decoded from the serial
+  provenance?: Partial<Record<JobTextField, FieldProvenance>>;
+  status: JobStatus;
+  statusHistory: JobStatusChange[]; // Oldest first
+}
+
+export interface TimeSlot {
+  start: string;
+  end: string;
 }
 
 export interface WorksheetData {
   id: string;
+  schemaVersion: number;
   date: string;
   dateLabel: string;
-  timeSlots: { start: string; end: string }[];
+  timeSlots: { [jobId: string]: TimeSlot };
   jobs: JobData[];
-  comments: { [key: number]: string };
-  createdAt?: string;
+  comments: { [jobId: string]: string };
+  startAddress: string; // Where the day starts, as entered while planning; empty if none was given
+  createdAt: string;
+}
+
+/** The job details a message is written from, recorded when it's sent to tell if it has gone out of date. */
+export interface MessageJobSnapshot {
+  customerName: string;
+  productBrand: string;
+  productType: string;
+  fault: string;
+  timeSlot: string;
+}
+
+export interface CustomerMessage {
+  jobId: string;
+  text: string;
+  phone: string; // Customer's number when the message was saved, for SMS/WhatsApp links
+  sentAt: string | null; // ISO timestamp of when it was marked as sent
+  sentSnapshot: MessageJobSnapshot | null; // Null when unsent, or sent before snapshots were kept
 }
 
 export interface SavedMessages {
   id: string;
+  schemaVersion: number;
   date: string;
   dateLabel: string;
-  messages: string[];
+  messages: CustomerMessage[];
   createdAt: string;
 }
 
@@ -40,3 +106,34 @@ export interface SavedWorksheet {
   jobCount: number;
   createdAt: string;
 }
+
+export type VoiceNoteStatus = 'pending' | 'transcribing' | 'done' | 'failed';
+
+export interface VoiceNote {
+  id: string;
+  jobId: string;
+  audio: Blob; // Compressed as recorded, e.g. Opus in WebM
+  mimeType: string;
+  durationSeconds: number;
+  transcript: string | null; // Set once transcribed
+  status: VoiceNoteStatus;
+  error?: string; // Why the last transcription attempt failed
+  date: string;
+  createdAt: string;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface AssistantConversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[]; // Without the system prompt, which is rebuilt for each request
+  worksheetId: string | null; // Worksheet the assistant was answering from, if any
+  jobId: string | null; // Job within that worksheet the chat was scoped to
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,53 @@
+// Runs on the audio rendering thread. Downsamples the microphone to 16kHz mono (what
+// Whisper expects) and posts it to the main thread in ~100ms batches.
+
+// The AudioWorklet global scope isn't part of the DOM lib, so declare what's used here
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+const TARGET_SAMPLE_RATE = 16000;
+const BATCH_SAMPLES = TARGET_SAMPLE_RATE / 10;
+
+class AudioCaptureProcessor extends AudioWorkletProcessor {
+  private ratio = Math.max(1, sampleRate / TARGET_SAMPLE_RATE);
+  private batch = new Float32Array(BATCH_SAMPLES);
+  private batchLength = 0;
+  // Streaming average-downsampler: input samples are summed until the next output boundary
+  private sum = 0;
+  private count = 0;
+  private position = 0;
+  private nextBoundary = this.ratio;
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.sum += channel[i];
+      this.count++;
+      this.position++;
+      if (this.position >= this.nextBoundary) {
+        this.batch[this.batchLength++] = this.sum / this.count;
+        this.sum = 0;
+        this.count = 0;
+        this.nextBoundary += this.ratio;
+        if (this.batchLength === BATCH_SAMPLES) this.flush();
+      }
+    }
+    return true;
+  }
+
+  private flush() {
+    // Transferred rather than copied; a fresh batch is started
+    this.port.postMessage(this.batch, [this.batch.buffer]);
+    this.batch = new Float32Array(BATCH_SAMPLES);
+    this.batchLength = 0;
+  }
+}
+
+registerProcessor('audio-capture', AudioCaptureProcessor);
+
+export {};
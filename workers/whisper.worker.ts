@@ -5,56 +5,66 @@ env.allowLocalModels = false;
 // Use the quantized version to save VRAM/Bandwidth
 env.useBrowserCache = true;
 
+// This version of transformers.js runs models on WASM only; it has no WebGPU backend
 class WhisperPipeline {
-  static task = 'automatic-speech-recognition';
-  static model = 'Xenova/whisper-large-v3-turbo';
+  static task = 'automatic-speech-recognition' as const;
+  static model: string | null = null;
   static instance: any = null;
 
-  static async getInstance(progressCallback: any = null) {
-    if (this.instance === null) {
-      this.instance = await pipeline(this.task, this.model, {
-        quantized: true,
-        device: 'webgpu', // Prefer WebGPU, fallback is handled by library
-        progress_callback: progressCallback,
-      });
+  static async getInstance(model: string, progressCallback: any = null) {
+    if (this.instance === null || this.model !== model) {
+      await this.instance?.dispose?.();
+      this.instance = null;
+      this.model = model;
+      this.instance = await pipeline(this.task, model, { quantized: true, progress_callback: progressCallback });
     }
     return this.instance;
   }
 }
 
+// Loads run one after another, so switching models mid-download can't interleave them
+let loadChain: Promise<unknown> = Promise.resolve();
+
 self.onmessage = async (event) => {
-  const { type, audio } = event.data;
+  const { type, id, model, audio, partial } = event.data;
 
   if (type === 'load') {
+    const load = loadChain.then(() =>
+      WhisperPipeline.getInstance(model, (data: any) => {
+        self.postMessage({ type: 'progress', model, data });
+      }),
+    );
+    loadChain = load.catch(() => undefined);
     try {
-      await WhisperPipeline.getInstance((data: any) => {
-        self.postMessage({ type: 'progress', data });
-      });
-      self.postMessage({ type: 'ready' });
+      await load;
+      self.postMessage({ type: 'ready', model });
     } catch (err: any) {
-      self.postMessage({ type: 'error', error: err.message });
+      self.postMessage({ type: 'load_error', model, error: err.message });
     }
     return;
   }
 
+  // Requests use whichever model was last loaded and are answered with their `id`.
+  // `partial` ones cover an utterance still in progress.
   if (type === 'transcribe') {
     try {
-      const transcriber = await WhisperPipeline.getInstance();
-      
-      // Run inference
-      const output = await transcriber(audio, {
-        chunk_length_s: 30,
-        stride_length_s: 5,
-        language: 'english',
-        task: 'transcribe',
-      });
+      const transcriber = WhisperPipeline.instance;
+      if (!transcriber) throw new Error('No transcription model loaded');
+
+      // English-only checkpoints reject the language and task options
+      const options = WhisperPipeline.model?.endsWith('.en')
+        ? { chunk_length_s: 30, stride_length_s: 5 }
+        : { chunk_length_s: 30, stride_length_s: 5, language: 'english', task: 'transcribe' };
+      const output = await transcriber(audio, options);
 
       self.postMessage({
         type: 'result',
+        id,
         text: output.text,
+        partial: !!partial,
       });
     } catch (err: any) {
-      self.postMessage({ type: 'error', error: err.message });
+      self.postMessage({ type: 'error', id, error: err.message, partial: !!partial });
     }
   }
-};
\ No newline at end of file
+};